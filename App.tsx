@@ -1,203 +1,461 @@
-import React, { useState, useRef, useMemo } from 'react';
-import { ParsedFileData, PlotlyTrace } from './types';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { ParsedFileData, PlotlyTrace, RawTable, ColumnMapping, SParameterView, DerivedTraceDefinition, ZoomRange, ProjectState, Marker, CsvDialect, YAxisId, AxisSettings, PlotLayoutMode, TraceStyle, ColorPalette, ReferenceLine, LimitMask, StatisticsSettings, XColumnType, ImportReport, PlotNote, PlotHighlight, PlotTemplateName, Theme, MarkerReadout } from './types';
 import Plot from './components/Plot';
-import { UploadIcon, ClearIcon, DragDropIcon, DownloadIcon } from './components/icons';
-
-// Declare Papa to satisfy TypeScript since it is loaded from a CDN
-declare var Papa: any;
-// Declare Plotly to access downloadImage function
-declare var Plotly: any;
-
-const LINE_STYLES = ['solid', 'dash', 'dot', 'dashdot', 'longdash', 'longdashdot'];
-const DOWNSAMPLING_THRESHOLD = 5000; // Files with more points than this will be downsampled.
-const DOWNSAMPLED_POINT_COUNT = 1000; // The target number of points after downsampling.
-
-/**
- * Implements the Largest-Triangle-Three-Buckets (LTTB) downsampling algorithm.
- * This is used to reduce the number of data points for visualization while preserving
- * the visual characteristics of the data.
- * @param data An array of data points, where each point is an object with 'x' and 'y' properties.
- * @param threshold The target number of data points to downsample to.
- * @returns A new array of downsampled data points.
- */
-function largestTriangleThreeBuckets(data: { x: number; y: number }[], threshold: number): { x: number; y: number }[] {
-    const dataLength = data.length;
-    if (threshold >= dataLength || threshold === 0) {
-        return data; // Nothing to do
-    }
-
-    const sampled: { x: number; y: number }[] = [];
-    let sampledIndex = 0;
-
-    // Bucket size. Leave room for start and end data points
-    const every = (dataLength - 2) / (threshold - 2);
-
-    let a = 0; // Initially a is the first point in the triangle
-    let maxAreaPoint;
-    let maxArea;
-    let area;
-    let nextA;
-
-    sampled[sampledIndex++] = data[a]; // Always add the first point
-
-    for (let i = 0; i < threshold - 2; i++) {
-        // Calculate the average point for the next bucket
-        let avgX = 0;
-        let avgY = 0;
-        let avgRangeStart = Math.floor((i + 1) * every) + 1;
-        const avgRangeEnd = Math.min(Math.floor((i + 2) * every) + 1, dataLength);
-        const avgRangeLength = avgRangeEnd - avgRangeStart;
-
-        for (; avgRangeStart < avgRangeEnd; avgRangeStart++) {
-            avgX += data[avgRangeStart].x;
-            avgY += data[avgRangeStart].y;
-        }
-        avgX /= avgRangeLength;
-        avgY /= avgRangeLength;
-
-        // Get the range for this bucket
-        let rangeOffs = Math.floor(i * every) + 1;
-        const rangeTo = Math.floor((i + 1) * every) + 1;
-
-        // Point a
-        const pointAX = data[a].x;
-        const pointAY = data[a].y;
-
-        maxArea = area = -1;
-
-        for (; rangeOffs < rangeTo; rangeOffs++) {
-            // Calculate triangle area over three buckets
-            area = Math.abs((pointAX - avgX) * (data[rangeOffs].y - pointAY) - (pointAX - data[rangeOffs].x) * (avgY - pointAY)) * 0.5;
-            if (area > maxArea) {
-                maxArea = area;
-                maxAreaPoint = data[rangeOffs];
-                nextA = rangeOffs; // Next a is this highest area point
-            }
-        }
-
-        if (maxAreaPoint) {
-            sampled[sampledIndex++] = maxAreaPoint; // Pick this point from the bucket
-            a = nextA as number; // This becomes the next point a
-        }
-    }
-
-    sampled[sampledIndex++] = data[dataLength - 1]; // Always add last point
-
-    return sampled;
-}
+import ColumnMappingPanel from './components/ColumnMappingPanel';
+import DerivedTraceForm from './components/DerivedTraceForm';
+import ExportDialog from './components/ExportDialog';
+import DataSourceDialog from './components/DataSourceDialog';
+import StreamPanel from './components/StreamPanel';
+import MarkerPanel, { formatValue } from './components/MarkerPanel';
+import ImportPreviewDialog, { PendingImport } from './components/ImportPreviewDialog';
+import ImportReportDialog from './components/ImportReportDialog';
+import NameCollisionDialog, { CollisionChoice } from './components/NameCollisionDialog';
+import AxesPanel from './components/AxesPanel';
+import TraceStylePanel from './components/TraceStylePanel';
+import ReferenceLinesPanel from './components/ReferenceLinesPanel';
+import AnnotationsPanel, { NoteDraft } from './components/AnnotationsPanel';
+import LimitMaskPanel from './components/LimitMaskPanel';
+import StatisticsPanel from './components/StatisticsPanel';
+import { buildFileTraces, mappableHeaders, traceKey } from './utils/traces';
+import { computeDerivedFileData, traceSeries } from './utils/derived';
+import { LINE_STYLES } from './utils/traceStyles';
+import { PLOT_TEMPLATES } from './utils/plotTemplates';
+import { buildLimitTraces, buildMarkerReadouts, buildPlotTraces, buildPlottedFileData, defaultTraceColors, evaluatePlottedLimits, isComplexPlaneView, plotDataOf, plotXAxisSettings, plottedFileNamesOf, resolveXColumnType, tracesByKeyOf } from './utils/plotFigure';
+import { buildPlotLayout } from './utils/plotLayout';
+import { applyTheme, isDarkTheme, loadTheme, saveTheme, watchSystemTheme } from './utils/theme';
+import { summarizeSeries, DEFAULT_STATISTICS } from './utils/statistics';
+import { findExtremum, findDropPoints } from './utils/markers';
+import { loadFileInWorker, LoadCancelledError, LoadedFile } from './utils/fileLoader';
+import { countImportIssues, failedImportReport } from './utils/importReport';
+import { isTouchstoneFile } from './utils/touchstone';
+import { fetchAsFile, textToFile, uniqueName, REFRESH_INTERVALS, UrlSource } from './utils/dataSources';
+import { appendRows, openStream, trimBatches, LiveStream, StreamBatch, StreamSettings, STREAM_FLUSH_INTERVAL } from './utils/streaming';
+import { detectXFormat, formatDuration, formatTimestamp, parsePlotlyDate, resolveXFormat, LOCAL_TIME_ZONE } from './utils/datetime';
+import { detectDialect, isStandardDialect, SAMPLE_BYTES } from './utils/csvDialect';
+import { clearShareLinkHash, createShareLink, mergeSharedView, missingSharedFiles, readShareLink } from './utils/shareLink';
+import { createBenchmarkFiles, isBenchmarkMode, RENDER_TIME_TARGET } from './utils/benchmark';
+import { isProjectFile, parseProject, serializeProject, autosaveTables, autosaveView, loadAutosave, clearAutosave, defaultAxis, defaultYAxes } from './utils/project';
+import { exportPlotImage, exportPlotData, downloadText, ImageExportOptions, DataExportOptions } from './utils/export';
+import { UploadIcon, ClearIcon, DragDropIcon, DownloadIcon, SaveIcon, LinkIcon } from './components/icons';
 
+const ACCEPTED_FILE_TYPES = '.csv,.s1p,.s2p,.s3p,.s4p,.s5p,.s6p,.s7p,.s8p,.json';
+const AUTOSAVE_DELAY = 1000; // Milliseconds of inactivity before the view is autosaved, and between autosaves of the tables.
+const S_PARAMETER_VIEWS: { value: SParameterView; label: string }[] = [
+    { value: 'db', label: 'Magnitude (dB)' },
+    { value: 'phase', label: 'Phase (deg)' },
+    { value: 'smith', label: 'Smith Chart' },
+    { value: 'polar', label: 'Polar' },
+];
+const THEMES: { value: Theme; label: string }[] = [
+    { value: 'system', label: 'System theme' },
+    { value: 'light', label: 'Light' },
+    { value: 'dark', label: 'Dark' },
+];
 
 const App: React.FC = () => {
     const [parsedFileData, setParsedFileData] = useState<ParsedFileData>({});
+    const [rawTables, setRawTables] = useState<Record<string, RawTable>>({});
+    const [columnMappings, setColumnMappings] = useState<Record<string, ColumnMapping>>({});
+    const [mappingPanelsOpen, setMappingPanelsOpen] = useState<Set<string>>(new Set());
+    const [sParamView, setSParamView] = useState<SParameterView>('db');
+    const [timeZone, setTimeZone] = useState(LOCAL_TIME_ZONE);
     const [fileOrder, setFileOrder] = useState<string[]>([]);
     const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
-    const [xAxisTitle, setXAxisTitle] = useState('');
-    const [yAxisTitle, setYAxisTitle] = useState('');
+    const [xAxis, setXAxis] = useState<AxisSettings>(defaultAxis());
+    const [yAxes, setYAxes] = useState<Record<YAxisId, AxisSettings>>(defaultYAxes());
+    const [traceAxes, setTraceAxes] = useState<Record<string, YAxisId>>({});
+    const [layoutMode, setLayoutMode] = useState<PlotLayoutMode>('overlay');
+    const [referenceLines, setReferenceLines] = useState<ReferenceLine[]>([]);
+    const [limitMasks, setLimitMasks] = useState<LimitMask[]>([]);
+    const [statistics, setStatistics] = useState<StatisticsSettings>(DEFAULT_STATISTICS);
+    const [traceStyles, setTraceStyles] = useState<Record<string, TraceStyle>>({});
+    const [palette, setPalette] = useState<ColorPalette>('plotly');
+    const [plotTemplate, setPlotTemplate] = useState<PlotTemplateName>('screen');
+    const [theme, setTheme] = useState<Theme>(loadTheme);
+    const [isDark, setIsDark] = useState(() => isDarkTheme(theme));
     const [error, setError] = useState<string | null>(null);
     const [fileStyles, setFileStyles] = useState<Record<string, string>>({});
+    const [fileLabels, setFileLabels] = useState<Record<string, string>>({});
+    const [fileGroups, setFileGroups] = useState<Record<string, string>>({});
+    const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+    const [fileFilter, setFileFilter] = useState('');
+    // The file whose label is being edited, and the file being dragged to a new place in the list
+    const [renamingFile, setRenamingFile] = useState<string | null>(null);
+    const [draggedFile, setDraggedFile] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
     const [downsampledFiles, setDownsampledFiles] = useState<Set<string>>(new Set());
+    const [derivedDefinitions, setDerivedDefinitions] = useState<DerivedTraceDefinition[]>([]);
+    const [zoomRange, setZoomRange] = useState<ZoomRange>({ x: null, y: null });
     const [isDragOver, setIsDragOver] = useState(false);
-    const [isLoading, setIsLoading] = useState(false);
+    const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+    const [dataSourceDialog, setDataSourceDialog] = useState<'paste' | 'url' | null>(null);
+    // Files opened from a URL, by file name. They are refreshed only in the session they were opened in.
+    const [urlSources, setUrlSources] = useState<Record<string, UrlSource>>({});
+    // Live streams by file name. Their rows are added to the file's table like the rows of an uploaded file.
+    const [streams, setStreams] = useState<Record<string, LiveStream>>({});
+    const [markers, setMarkers] = useState<Marker[]>([]);
+    const [snapTraceKey, setSnapTraceKey] = useState('');
+    const [clickToPlaceMarkers, setClickToPlaceMarkers] = useState(false);
+    // Text notes and highlighted X ranges the user draws on the plot
+    const [notes, setNotes] = useState<PlotNote[]>([]);
+    const [highlights, setHighlights] = useState<PlotHighlight[]>([]);
+    const [noteDraft, setNoteDraft] = useState<NoteDraft>({ text: '', color: '#4f46e5', showArrow: true });
+    const [clickToPlaceNotes, setClickToPlaceNotes] = useState(false);
+    const [editAnnotationsOnPlot, setEditAnnotationsOnPlot] = useState(true);
+    // Plotly keeps what was dragged or typed on the plot across redraws until this changes. It is
+    // bumped after each edit, so the plot is redrawn from state and edits of generated items are undone.
+    const [plotEditRevision, setPlotEditRevision] = useState(0);
+    // `replacing` holds the names of loaded files the imported ones replace
+    const [pendingImport, setPendingImport] = useState<{ files: File[]; csv: PendingImport[]; replacing: Set<string> } | null>(null);
+    // Imported files whose names are already loaded, waiting for the user to choose what to do
+    const [pendingCollision, setPendingCollision] = useState<{ files: File[]; names: string[] } | null>(null);
+    // The import report of each loaded file, and of the files that could not be imported
+    const [importReports, setImportReports] = useState<Record<string, ImportReport>>({});
+    const [failedImports, setFailedImports] = useState<Record<string, ImportReport>>({});
+    const [openReport, setOpenReport] = useState<{ fileName: string; report: ImportReport } | null>(null);
+    const [alwaysPreviewImports, setAlwaysPreviewImports] = useState(false);
+    const [loadProgress, setLoadProgress] = useState<Record<string, number>>({});
+    // The autosave is only written once the previous session has been restored, so it isn't overwritten on startup
+    const [autosaveRestored, setAutosaveRestored] = useState(false);
+    // Why the last autosave failed, shown until a later one succeeds
+    const [autosaveError, setAutosaveError] = useState<string | null>(null);
+    // How long the last redraw of the plot took, in milliseconds
+    const [renderTime, setRenderTime] = useState<number | null>(null);
+    // A view opened from a shared link, waiting for its files to be loaded
+    const [pendingSharedView, setPendingSharedView] = useState<ProjectState | null>(null);
+    const [shareIncludesData, setShareIncludesData] = useState(false);
+    const [shareMessage, setShareMessage] = useState<string | null>(null);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // Picks the new version of a file to reload; `reloadTargetRef` holds the name of the file it replaces
+    const reloadInputRef = useRef<HTMLInputElement>(null);
+    const reloadTargetRef = useRef<string | null>(null);
     const plotRef = useRef<HTMLDivElement>(null);
+    const activeLoadsRef = useRef<Map<string, () => void>>(new Map());
+    // The interval timers call the latest refresh function, which sees the current mappings and views
+    const refreshUrlSourceRef = useRef<(fileName: string) => void>(() => {});
+    const streamConnectionsRef = useRef<Map<string, { close: () => void }>>(new Map());
+    // Rows received since the last flush, so a fast stream doesn't re-render on every message
+    const streamBuffersRef = useRef<Map<string, StreamBatch[]>>(new Map());
+    const flushStreamsRef = useRef<() => void>(() => {});
+    // The tables as of the last render, and the scheduled save of them
+    const rawTablesRef = useRef<Record<string, RawTable>>({});
+    const tablesAutosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-    const processFiles = (files: FileList) => {
+    // `reports` are the import reports to keep, of files that were loaded before the project was applied
+    const applyProject = (project: ProjectState, reports: Record<string, ImportReport> = {}) => {
+        handleCancelLoad();
+        closeAllStreams();
+        const data: ParsedFileData = {};
+        const downsampled = new Set<string>();
+        Object.entries(project.tables).forEach(([fileName, table]) => {
+            const mapping = project.columnMappings[fileName];
+            if (!mapping) return;
+            const built = buildFileTraces(fileName, table, mapping, project.sParamView, project.timeZone);
+            data[fileName] = built.traces;
+            if (built.downsampled) {
+                downsampled.add(fileName);
+            }
+        });
+
+        setParsedFileData(data);
+        setRawTables(project.tables);
+        setColumnMappings(project.columnMappings);
+        setMappingPanelsOpen(new Set());
+        setFileOrder(project.fileOrder);
+        setSelectedFiles(new Set(project.selectedFiles));
+        setFileStyles(project.fileStyles);
+        setFileLabels(project.fileLabels);
+        setFileGroups(project.fileGroups);
+        setXAxis(project.xAxis);
+        setYAxes(project.yAxes);
+        setTraceAxes(project.traceAxes);
+        setLayoutMode(project.layoutMode);
+        setReferenceLines(project.referenceLines);
+        setLimitMasks(project.limitMasks);
+        setStatistics(project.statistics);
+        setTraceStyles(project.traceStyles);
+        setPalette(project.palette);
+        setPlotTemplate(project.plotTemplate);
+        setSParamView(project.sParamView);
+        setTimeZone(project.timeZone);
+        setZoomRange(project.zoomRange);
+        setDerivedDefinitions(project.derivedDefinitions);
+        setMarkers(project.markers);
+        setNotes(project.notes);
+        setHighlights(project.highlights);
+        setDownsampledFiles(downsampled);
+        setUrlSources({});
+        // Projects don't keep import reports
+        setImportReports(reports);
+        setFailedImports({});
+        setError(null);
+    };
+
+    const processFiles = (files: FileList | File[]) => {
         if (!files || files.length === 0) return;
 
-        setIsLoading(true);
         setError(null);
 
-        const newFiles: File[] = Array.from(files).filter((file) => !parsedFileData[file.name]);
-        if (newFiles.length === 0) {
-            setIsLoading(false);
+        // A project replaces the whole session, so it is opened on its own and the other files are reported as skipped
+        const projectFile = Array.from(files).find(file => isProjectFile(file.name));
+        if (projectFile) {
+            const skipped = Array.from(files).filter(file => file !== projectFile).map(file => file.name);
+            projectFile.text()
+                .then(content => {
+                    applyProject(parseProject(content));
+                    if (skipped.length > 0) {
+                        setError(`Opened ${projectFile.name} on its own, as a project replaces the session. Add ${skipped.join(', ')} again to load ${skipped.length === 1 ? 'it' : 'them'} into the project.`);
+                    }
+                })
+                .catch(err => setError(`Could not open ${projectFile.name}: ${err.message}`));
+            if (fileInputRef.current) {
+                fileInputRef.current.value = '';
+            }
             return;
         }
 
-        const fileReadPromises = newFiles.map(file =>
-            new Promise<{ file: File; content: string }>((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onload = (e) => resolve({ file, content: e.target?.result as string });
-                reader.onerror = () => reject(new Error(`Error reading ${file.name}`));
-                reader.readAsText(file);
+        // A file that is still loading isn't loaded twice. Names of derived traces and streams can't be replaced,
+        // so a file named like one of them is added under a new name.
+        const newFiles: File[] = Array.from(files)
+            .filter(file => !activeLoadsRef.current.has(file.name))
+            .map(file => (streams[file.name] || derivedDefinitions.some(definition => definition.name === file.name)
+                ? new File([file], uniqueName(file.name, isNameTaken), { type: file.type })
+                : file));
+        const collisions = newFiles.filter(file => parsedFileData[file.name]).map(file => file.name);
+        if (collisions.length > 0) {
+            setPendingCollision({ files: newFiles, names: collisions });
+        } else if (newFiles.length > 0) {
+            importFiles(newFiles, new Set());
+        }
+
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+    };
+
+    const importFiles = (newFiles: File[], replacing: Set<string>) => {
+        // Detect the layout of CSV files from their first bytes; unusual layouts are confirmed in a preview first
+        const csvFiles = newFiles.filter(file => !isTouchstoneFile(file.name));
+        Promise.all(csvFiles.map(file => file.slice(0, SAMPLE_BYTES).text()))
+            .then(samples => {
+                const pending: PendingImport[] = csvFiles.map((file, index) => {
+                    const isWholeFile = file.size <= SAMPLE_BYTES;
+                    return { file, sample: samples[index], isWholeFile, dialect: detectDialect(samples[index], isWholeFile) };
+                });
+                if (pending.length > 0 && (alwaysPreviewImports || pending.some(item => !isStandardDialect(item.dialect)))) {
+                    setPendingImport({ files: newFiles, csv: pending, replacing });
+                } else {
+                    startLoads(newFiles, Object.fromEntries(pending.map(item => [item.file.name, item.dialect])), replacing);
+                }
             })
-        );
+            .catch(err => setError(err.message));
+    };
+
+    const handleResolveCollisions = (choices: Record<string, CollisionChoice>) => {
+        if (!pendingCollision) return;
+        setPendingCollision(null);
+        const accepted: File[] = [];
+        const replacing = new Set<string>();
+        const acceptedNames = new Set<string>();
+        pendingCollision.files.forEach(file => {
+            const choice = choices[file.name];
+            if (choice === 'skip') return;
+            if (choice === 'keep') {
+                const name = uniqueName(file.name, candidate => isNameTaken(candidate) || acceptedNames.has(candidate));
+                acceptedNames.add(name);
+                accepted.push(new File([file], name, { type: file.type }));
+                return;
+            }
+            if (choice === 'replace') {
+                replacing.add(file.name);
+            }
+            acceptedNames.add(file.name);
+            accepted.push(file);
+        });
+        if (accepted.length > 0) {
+            importFiles(accepted, replacing);
+        }
+    };
+
+    const isNameTaken = (name: string) => Boolean(parsedFileData[name])
+        || activeLoadsRef.current.has(name)
+        || Boolean(streams[name])
+        || derivedDefinitions.some(definition => definition.name === name);
 
-        Promise.all(fileReadPromises).then(results => {
+    const handlePasteData = (text: string, name: string) => {
+        setDataSourceDialog(null);
+        processFiles([textToFile(text, uniqueName(name, isNameTaken))]);
+    };
+
+    const handleOpenUrl = (url: string, refreshSeconds: number) => {
+        setDataSourceDialog(null);
+        setError(null);
+        fetchAsFile(url)
+            .then(fetched => {
+                const file = new File([fetched], uniqueName(fetched.name, isNameTaken), { type: fetched.type });
+                setUrlSources(prev => ({ ...prev, [file.name]: { url, refreshSeconds } }));
+                processFiles([file]);
+            })
+            .catch(err => setError(err.message));
+    };
+
+    // Replaces the data of a loaded file, keeping the column mapping if the columns still exist
+    const replaceFileData = (fileName: string, loaded: LoadedFile) => {
+        const previous = columnMappings[fileName];
+        const headers = mappableHeaders(loaded.table);
+        const keepsMapping = previous && [previous.x, ...previous.y].every(header => headers.includes(header));
+        const mapping = keepsMapping ? previous : loaded.mapping;
+        const { traces, downsampled } = keepsMapping ? buildFileTraces(fileName, loaded.table, mapping, sParamView, timeZone) : loaded;
+        // The file may have been removed while it was loading
+        setParsedFileData(prev => (prev[fileName] ? { ...prev, [fileName]: traces } : prev));
+        setRawTables(prev => (prev[fileName] ? { ...prev, [fileName]: loaded.table } : prev));
+        setColumnMappings(prev => (prev[fileName] ? { ...prev, [fileName]: mapping } : prev));
+        setImportReports(prev => (prev[fileName] ? { ...prev, [fileName]: loaded.report } : prev));
+        setDownsampledFiles(prev => {
+            const newSet = new Set(prev);
+            if (downsampled) {
+                newSet.add(fileName);
+            } else {
+                newSet.delete(fileName);
+            }
+            return newSet;
+        });
+    };
+
+    // Fetches a file opened from a URL again and replaces its data
+    const refreshUrlSource = (fileName: string) => {
+        const source = urlSources[fileName];
+        // A refresh that is still running isn't started again
+        if (!source || activeLoadsRef.current.has(fileName)) return;
+        let cancelled = false;
+        activeLoadsRef.current.set(fileName, () => { cancelled = true; });
+        fetchAsFile(source.url)
+            .then(async fetched => {
+                if (cancelled) return null;
+                const file = new File([fetched], fileName, { type: fetched.type });
+                const sample = await file.slice(0, SAMPLE_BYTES).text();
+                const dialect = isTouchstoneFile(fileName) ? undefined : detectDialect(sample, file.size <= SAMPLE_BYTES);
+                const load = loadFileInWorker(file, sParamView, dialect, timeZone, () => {});
+                activeLoadsRef.current.set(fileName, load.cancel);
+                return load.promise;
+            })
+            .then(loaded => {
+                if (loaded?.type === 'done') {
+                    replaceFileData(fileName, loaded);
+                } else if (loaded) {
+                    setError(`Refreshing ${fileName} failed: ${loaded.report.failure}`);
+                }
+            })
+            .catch(err => {
+                if (!(err instanceof LoadCancelledError)) {
+                    setError(`Refreshing ${fileName} failed: ${err.message}`);
+                }
+            })
+            .finally(() => activeLoadsRef.current.delete(fileName));
+    };
+    refreshUrlSourceRef.current = refreshUrlSource;
+
+    useEffect(() => {
+        const timers = Object.entries(urlSources as Record<string, UrlSource>)
+            .filter(([fileName, source]) => source.refreshSeconds > 0 && fileOrder.includes(fileName))
+            .map(([fileName, source]) => setInterval(() => refreshUrlSourceRef.current(fileName), source.refreshSeconds * 1000));
+        return () => timers.forEach(clearInterval);
+    }, [urlSources, fileOrder]);
+
+    const handleConfirmImport = (dialects: CsvDialect[]) => {
+        if (!pendingImport) return;
+        startLoads(pendingImport.files, Object.fromEntries(pendingImport.csv.map((item, index) => [item.file.name, dialects[index]])), pendingImport.replacing);
+        setPendingImport(null);
+    };
+
+    const startLoads = (newFiles: File[], dialects: Record<string, CsvDialect>, replacing: Set<string>) => {
+        setLoadProgress(prev => {
+            const next = { ...prev };
+            newFiles.forEach(file => { next[file.name] = 0; });
+            return next;
+        });
+
+        const loads = newFiles.map(file => {
+            const load = loadFileInWorker(file, sParamView, dialects[file.name], timeZone, (progress) => {
+                setLoadProgress(prev => (file.name in prev ? { ...prev, [file.name]: progress } : prev));
+            });
+            activeLoadsRef.current.set(file.name, load.cancel);
+            return load.promise.finally(() => {
+                activeLoadsRef.current.delete(file.name);
+                setLoadProgress(prev => {
+                    const { [file.name]: _finished, ...rest } = prev;
+                    return rest;
+                });
+            });
+        });
+
+        // Results are added in upload order once every file has finished, as the synchronous path did.
+        Promise.allSettled(loads).then(results => {
             const newParsedData: ParsedFileData = {};
+            const newTables: Record<string, RawTable> = {};
+            const newMappings: Record<string, ColumnMapping> = {};
             const newFileNames: string[] = [];
             const newStyles: Record<string, string> = {};
             const newDownsampledFiles = new Set<string>();
+            const newReports: Record<string, ImportReport> = {};
+            const newFailures: Record<string, ImportReport> = {};
 
-            results.forEach(({ file, content }) => {
-                Papa.parse(content, {
-                    header: true,
-                    dynamicTyping: true,
-                    skipEmptyLines: true,
-                    complete: (res: any) => {
-                        if (res.errors.length > 0) {
-                             setError(`Parsing error in ${file.name}: ${res.errors[0].message}`);
-                             return;
-                        }
-                        const data = res.data;
-                        const headers = res.meta.fields;
-                        if (!data || data.length === 0 || !headers || !headers.length || headers.length < 2) {
-                            return;
-                        }
-
-                        const xHeader = headers[0];
-                        const initialXData = data.map((row: any) => row[xHeader]);
-                        const fileTraces: PlotlyTrace[] = [];
-
-                        for (let i = 1; i < headers.length; i++) {
-                            const yHeader = headers[i];
-                            let yData = data.map((row: any) => row[yHeader]);
-                            let xData = [...initialXData];
-
-                            if (xData.length > DOWNSAMPLING_THRESHOLD) {
-                                const combinedData = xData.map((x, index) => ({ x: Number(x), y: Number(yData[index]) }));
-                                const sampled = largestTriangleThreeBuckets(combinedData, DOWNSAMPLED_POINT_COUNT);
-                                xData = sampled.map(p => p.x);
-                                yData = sampled.map(p => p.y);
-                                newDownsampledFiles.add(file.name);
-                            }
-
-                            fileTraces.push({
-                                x: xData,
-                                y: yData,
-                                mode: 'lines',
-                                name: `${yHeader} (${file.name})`,
-                                line: { width: 2 },
-                                _headers: { x: xHeader, y: yHeader }
-                            });
-                        }
-                        if (fileTraces.length > 0) {
-                            newParsedData[file.name] = fileTraces;
-                            newFileNames.push(file.name);
-                            // Assign a default style
-                            const styleIndex = (fileOrder.length + newFileNames.length - 1) % LINE_STYLES.length;
-                            newStyles[file.name] = LINE_STYLES[styleIndex];
-                        }
+            results.forEach((result, index) => {
+                const fileName = newFiles[index].name;
+                if (result.status === 'rejected') {
+                    if (!(result.reason instanceof LoadCancelledError)) {
+                        newFailures[fileName] = failedImportReport(result.reason.message);
                     }
-                });
+                    return;
+                }
+                const loaded = result.value;
+                if (loaded.type !== 'done' || loaded.traces.length === 0) {
+                    newFailures[fileName] = loaded.type === 'done' ? { ...loaded.report, failure: 'None of its columns can be plotted' } : loaded.report;
+                    return;
+                }
+
+                newReports[fileName] = loaded.report;
+                // A replaced file keeps its place in the list, its selection and style
+                if (replacing.has(fileName)) {
+                    replaceFileData(fileName, loaded);
+                    return;
+                }
+                if (loaded.downsampled) {
+                    newDownsampledFiles.add(fileName);
+                }
+                newParsedData[fileName] = loaded.traces;
+                newTables[fileName] = loaded.table;
+                newMappings[fileName] = loaded.mapping;
+                newFileNames.push(fileName);
+                // Assign a default style
+                const styleIndex = (fileOrder.length + newFileNames.length - 1) % LINE_STYLES.length;
+                newStyles[fileName] = LINE_STYLES[styleIndex];
             });
 
+            setImportReports(prev => ({ ...prev, ...newReports }));
+            setFailedImports(prev => {
+                const next = { ...prev, ...newFailures };
+                Object.keys(newReports).forEach(fileName => { delete next[fileName]; });
+                return next;
+            });
             if (newFileNames.length > 0) {
                 setParsedFileData(prev => ({ ...prev, ...newParsedData }));
+                setRawTables(prev => ({ ...prev, ...newTables }));
+                setColumnMappings(prev => ({ ...prev, ...newMappings }));
                 setFileOrder(prev => [...prev, ...newFileNames]);
                 setSelectedFiles(prev => new Set([...prev, ...newFileNames]));
                 setFileStyles(prev => ({ ...prev, ...newStyles }));
                 setDownsampledFiles(prev => new Set([...prev, ...newDownsampledFiles]));
             }
-
-        }).catch(err => {
-            setError(err.message);
-        }).finally(() => {
-            setIsLoading(false);
         });
+    };
 
-        if (fileInputRef.current) {
-            fileInputRef.current.value = '';
+    const handleCancelLoad = (fileName?: string) => {
+        if (fileName) {
+            activeLoadsRef.current.get(fileName)?.();
+        } else {
+            activeLoadsRef.current.forEach(cancel => cancel());
         }
     };
 
@@ -208,17 +466,43 @@ const App: React.FC = () => {
     };
 
     const handleClearAll = () => {
+        handleCancelLoad();
+        closeAllStreams();
         setParsedFileData({});
+        setRawTables({});
+        setColumnMappings({});
+        setMappingPanelsOpen(new Set());
         setFileOrder([]);
         setSelectedFiles(new Set());
-        setXAxisTitle('');
-        setYAxisTitle('');
+        setXAxis(defaultAxis());
+        setYAxes(defaultYAxes());
+        setTraceAxes({});
+        setLayoutMode('overlay');
+        setReferenceLines([]);
+        setLimitMasks([]);
+        setStatistics(DEFAULT_STATISTICS);
+        setTraceStyles({});
         setError(null);
         setFileStyles({});
+        setFileLabels({});
+        setFileGroups({});
+        setCollapsedGroups(new Set());
         setDownsampledFiles(new Set());
+        setZoomRange({ x: null, y: null });
+        setDerivedDefinitions([]);
+        setMarkers([]);
+        setNotes([]);
+        setHighlights([]);
+        setImportReports({});
+        setFailedImports({});
+        setUrlSources({});
         if (fileInputRef.current) {
             fileInputRef.current.value = '';
         }
+        // The stored data goes right away rather than with the next autosave
+        clearAutosave()
+            .then(() => setAutosaveError(null))
+            .catch(err => setAutosaveError(`Could not clear the autosaved session: ${err.message}`));
     };
 
     const handleSelectionChange = (fileName: string) => {
@@ -236,20 +520,369 @@ const App: React.FC = () => {
     const handleStyleChange = (fileName: string, style: string) => {
         setFileStyles(prev => ({ ...prev, [fileName]: style }));
     };
+
+    const handleMappingChange = (fileName: string, mapping: ColumnMapping) => {
+        const table = rawTables[fileName];
+        if (!table) return;
+
+        const { traces, downsampled } = buildFileTraces(fileName, table, mapping, sParamView, timeZone);
+        setColumnMappings(prev => ({ ...prev, [fileName]: mapping }));
+        setParsedFileData(prev => ({ ...prev, [fileName]: traces }));
+        setDownsampledFiles(prev => {
+            const newSet = new Set(prev);
+            if (downsampled) {
+                newSet.add(fileName);
+            } else {
+                newSet.delete(fileName);
+            }
+            return newSet;
+        });
+    };
+
+    const handleSParamViewChange = (view: SParameterView) => {
+        setSParamView(view);
+        const rebuilt: ParsedFileData = {};
+        Object.entries(rawTables as Record<string, RawTable>).forEach(([fileName, table]) => {
+            if (table.touchstone && columnMappings[fileName]) {
+                rebuilt[fileName] = buildFileTraces(fileName, table, columnMappings[fileName], view, timeZone).traces;
+            }
+        });
+        setParsedFileData(prev => ({ ...prev, ...rebuilt }));
+    };
+
+    const handleTimeZoneChange = (zone: string) => {
+        setTimeZone(zone);
+        const rebuilt: ParsedFileData = {};
+        Object.entries(rawTables as Record<string, RawTable>).forEach(([fileName, table]) => {
+            const mapping = columnMappings[fileName];
+            if (mapping && resolveXFormat(table, mapping).type === 'datetime') {
+                rebuilt[fileName] = buildFileTraces(fileName, table, mapping, sParamView, zone).traces;
+            }
+        });
+        setParsedFileData(prev => ({ ...prev, ...rebuilt }));
+        // The times move with the zone, so a zoomed X range no longer shows the same data
+        setZoomRange(prev => ({ ...prev, x: null }));
+    };
+
+    const handleAddDerived = (definition: DerivedTraceDefinition) => {
+        setDerivedDefinitions(prev => [...prev, definition]);
+        setFileOrder(prev => [...prev, definition.name]);
+        setSelectedFiles(prev => new Set([...prev, definition.name]));
+        setFileStyles(prev => ({ ...prev, [definition.name]: LINE_STYLES[fileOrder.length % LINE_STYLES.length] }));
+    };
+
+    const handleRemoveDerived = (name: string) => {
+        setDerivedDefinitions(prev => prev.filter(definition => definition.name !== name));
+        setFileOrder(prev => prev.filter(fileName => fileName !== name));
+        setSelectedFiles(prev => {
+            const newSet = new Set(prev);
+            newSet.delete(name);
+            return newSet;
+        });
+        setFileStyles(prev => {
+            const { [name]: _removed, ...rest } = prev;
+            return rest;
+        });
+        removeTraceSettings(name);
+    };
+
+    // Drops the styles, axis assignments and markers of a removed file's traces, so they don't come back on a file of the same name
+    const removeTraceSettings = (fileName: string) => {
+        const withoutTraces = <T,>(record: Record<string, T>): Record<string, T> =>
+            Object.fromEntries(Object.entries(record).filter(([key]) => !key.startsWith(traceKey(fileName, '')))) as Record<string, T>;
+        setTraceStyles(withoutTraces);
+        setTraceAxes(withoutTraces);
+        setMarkers(prev => prev.filter(marker => !marker.traceKey.startsWith(traceKey(fileName, ''))));
+    };
+
+    // Removes one file and everything that refers to its traces. Derived traces built from it report the missing input.
+    const handleRemoveFile = (fileName: string) => {
+        if (derivedDefinitions.some(definition => definition.name === fileName)) {
+            handleRemoveDerived(fileName);
+            return;
+        }
+        if (streams[fileName]) {
+            handleDisconnectStream(fileName);
+        }
+        activeLoadsRef.current.get(fileName)?.();
+        const withoutFile = <T,>(record: Record<string, T>): Record<string, T> => {
+            const { [fileName]: _removed, ...rest } = record;
+            return rest;
+        };
+        const withoutName = (set: Set<string>) => {
+            const newSet = new Set(set);
+            newSet.delete(fileName);
+            return newSet;
+        };
+        setParsedFileData(withoutFile);
+        setRawTables(withoutFile);
+        setColumnMappings(withoutFile);
+        setFileStyles(withoutFile);
+        setFileLabels(withoutFile);
+        setFileGroups(withoutFile);
+        setUrlSources(withoutFile);
+        setImportReports(withoutFile);
+        setFileOrder(prev => prev.filter(name => name !== fileName));
+        setSelectedFiles(withoutName);
+        setDownsampledFiles(withoutName);
+        setMappingPanelsOpen(withoutName);
+        removeTraceSettings(fileName);
+    };
+
+    const fileLabel = (fileName: string) => fileLabels[fileName] || fileName;
+
+    const handleRenameFile = (fileName: string, label: string) => {
+        setRenamingFile(null);
+        setFileLabels(prev => {
+            const { [fileName]: _previous, ...rest } = prev;
+            return label.trim() && label.trim() !== fileName ? { ...rest, [fileName]: label.trim() } : rest;
+        });
+    };
+
+    // Moves a file into a group, after the files already in it so each group stays together in the legend. An empty name ungroups it.
+    const handleFileGroupChange = (fileName: string, group: string) => {
+        const name = group.trim();
+        if ((fileGroups[fileName] ?? '') === name) return;
+        setFileGroups(prev => {
+            const { [fileName]: _previous, ...rest } = prev;
+            return name ? { ...rest, [fileName]: name } : rest;
+        });
+        if (!name) return;
+        setFileOrder(prev => {
+            const others = prev.filter(other => other !== fileName);
+            const lastMember = others.map(other => fileGroups[other]).lastIndexOf(name);
+            return lastMember < 0 ? prev : [...others.slice(0, lastMember + 1), fileName, ...others.slice(lastMember + 1)];
+        });
+    };
+
+    const handleGroupSelectionChange = (members: string[], selected: boolean) => {
+        setSelectedFiles(prev => {
+            const newSet = new Set(prev);
+            members.forEach(fileName => (selected ? newSet.add(fileName) : newSet.delete(fileName)));
+            return newSet;
+        });
+    };
+
+    const toggleGroupCollapsed = (group: string) => {
+        setCollapsedGroups(prev => {
+            const newSet = new Set(prev);
+            if (newSet.has(group)) {
+                newSet.delete(group);
+            } else {
+                newSet.add(group);
+            }
+            return newSet;
+        });
+    };
+
+    // Drops the dragged file before another one, into that file's group. Without a target it goes to the end, ungrouped.
+    const handleFileDrop = (target: string | null) => {
+        const moved = draggedFile;
+        setDraggedFile(null);
+        setDropTarget(null);
+        if (!moved || moved === target) return;
+        setFileOrder(prev => {
+            const others = prev.filter(name => name !== moved);
+            const index = target === null ? others.length : others.indexOf(target);
+            return index < 0 ? prev : [...others.slice(0, index), moved, ...others.slice(index)];
+        });
+        setFileGroups(prev => {
+            const { [moved]: _previous, ...rest } = prev;
+            const group = target === null ? undefined : prev[target];
+            return group ? { ...rest, [moved]: group } : rest;
+        });
+    };
+
+    // Selects all, none or the opposite of the files that match the filter; the others keep their selection
+    const handleBulkSelection = (mode: 'all' | 'none' | 'invert') => {
+        setSelectedFiles(prev => {
+            const newSet = new Set(prev);
+            filteredFileNames.forEach(fileName => {
+                const selected = mode === 'all' || (mode === 'invert' && !prev.has(fileName));
+                if (selected) {
+                    newSet.add(fileName);
+                } else {
+                    newSet.delete(fileName);
+                }
+            });
+            return newSet;
+        });
+    };
+
+    // Browsers can't read a file again once it changed on disk, so its new version is picked like an upload
+    const handleReloadFile = (fileName: string) => {
+        reloadTargetRef.current = fileName;
+        if (reloadInputRef.current) {
+            // Only files of the same kind, as the new version is read by the name of the old one
+            reloadInputRef.current.accept = fileName.includes('.') ? fileName.slice(fileName.lastIndexOf('.')) : ACCEPTED_FILE_TYPES;
+            reloadInputRef.current.value = '';
+            reloadInputRef.current.click();
+        }
+    };
+
+    const handleReloadFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const picked = event.target.files?.[0];
+        const fileName = reloadTargetRef.current;
+        reloadTargetRef.current = null;
+        if (!picked || !fileName || !rawTables[fileName]) return;
+        setError(null);
+        importFiles([new File([picked], fileName, { type: picked.type })], new Set([fileName]));
+    };
+
+    const toggleMappingPanel = (fileName: string) => {
+        setMappingPanelsOpen(prev => {
+            const newSet = new Set(prev);
+            if (newSet.has(fileName)) {
+                newSet.delete(fileName);
+            } else {
+                newSet.add(fileName);
+            }
+            return newSet;
+        });
+    };
     
-    const handleDownloadPlot = () => {
-        if (plotRef.current) {
-            const plottedFiles = fileOrder.filter(name => selectedFiles.has(name));
-            const filename = plottedFiles.length > 0 ? `plot_${plottedFiles.join('_')}`.replace(/\.csv/g, '') : 'plot';
-            Plotly.downloadImage(plotRef.current, {
-                format: 'png',
-                width: 1200,
-                height: 800,
-                filename: filename
+    const projectState: ProjectState = {
+        tables: rawTables,
+        columnMappings,
+        fileOrder,
+        selectedFiles: fileOrder.filter(fileName => selectedFiles.has(fileName)),
+        fileStyles,
+        fileLabels,
+        fileGroups,
+        xAxis,
+        yAxes,
+        traceAxes,
+        layoutMode,
+        referenceLines,
+        limitMasks,
+        statistics,
+        traceStyles,
+        palette,
+        plotTemplate,
+        sParamView,
+        timeZone,
+        zoomRange,
+        derivedDefinitions,
+        markers,
+        notes,
+        highlights,
+    };
+
+    const handleSaveProject = () => {
+        downloadText(serializeProject(projectState), `csv-plotter-project_${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+    };
+
+    useEffect(() => {
+        // The benchmark data isn't autosaved, so it doesn't replace the saved session
+        if (isBenchmarkMode()) {
+            processFiles(createBenchmarkFiles());
+            return;
+        }
+        readShareLink(window.location.hash)
+            .catch(err => {
+                setError(`Could not open the shared view: ${err.message}`);
+                return null;
+            })
+            .then(shared => {
+                if (shared && Object.keys(shared.tables).length > 0) {
+                    // The data came with the link
+                    applyProject(shared);
+                    clearShareLinkHash();
+                    return;
+                }
+                // Otherwise the view waits for its files, which may already be in the autosaved session
+                setPendingSharedView(shared);
+                return loadAutosave().then(project => {
+                    if (project) {
+                        applyProject(project);
+                    }
+                });
+            })
+            .catch(err => setError(`Could not restore the autosaved session: ${err.message}`))
+            .finally(() => setAutosaveRestored(true));
+    }, []);
+
+    // A shared view is applied as soon as all of its files are loaded
+    useEffect(() => {
+        if (!pendingSharedView || Object.keys(loadProgress).length > 0) return;
+        if (missingSharedFiles(pendingSharedView, rawTables).length > 0) return;
+        // The files were loaded for the view, so their reports stay
+        applyProject(mergeSharedView(pendingSharedView, rawTables, columnMappings), importReports);
+        setPendingSharedView(null);
+        clearShareLinkHash();
+    }, [pendingSharedView, rawTables, loadProgress]);
+
+    const handleDismissSharedView = () => {
+        setPendingSharedView(null);
+        clearShareLinkHash();
+    };
+
+    const handleCopyShareLink = () => {
+        createShareLink(projectState, shareIncludesData)
+            .then(link => navigator.clipboard.writeText(link))
+            .then(() => {
+                setError(null);
+                setShareMessage(shareIncludesData ? 'Link with data copied to the clipboard' : 'Link copied; whoever opens it loads the same files to see the view');
+            })
+            .catch(err => {
+                setShareMessage(null);
+                setError(`Could not create the link: ${err.message}`);
             });
+    };
+
+    // The tables are saved at most once per AUTOSAVE_DELAY rather than after a pause, as a live stream changes them
+    // several times a second and would otherwise hold the save back until it stops. A change made while a save is
+    // scheduled is picked up by that save, so the last change is always saved.
+    rawTablesRef.current = rawTables;
+    useEffect(() => {
+        if (!autosaveRestored || tablesAutosaveTimerRef.current) return;
+        tablesAutosaveTimerRef.current = setTimeout(() => {
+            tablesAutosaveTimerRef.current = null;
+            autosaveTables(rawTablesRef.current)
+                .then(() => setAutosaveError(null))
+                .catch(err => setAutosaveError(`Autosave failed: ${err.message}`));
+        }, AUTOSAVE_DELAY);
+    }, [rawTables, autosaveRestored]);
+
+    useEffect(() => {
+        if (!autosaveRestored) return;
+        const { tables: _tables, ...view } = projectState;
+        const timer = setTimeout(() => {
+            autosaveView(view)
+                .then(() => setAutosaveError(null))
+                .catch(err => setAutosaveError(`Autosave failed: ${err.message}`));
+        }, AUTOSAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [columnMappings, fileOrder, selectedFiles, fileStyles, fileLabels, fileGroups, xAxis, yAxes, traceAxes, layoutMode, referenceLines, limitMasks, statistics, traceStyles, palette, plotTemplate, sParamView, timeZone, zoomRange, derivedDefinitions, markers, notes, highlights, autosaveRestored]);
+
+    // The page follows the picked theme, and the operating system's setting while 'system' is picked
+    useEffect(() => {
+        const update = () => {
+            const dark = isDarkTheme(theme);
+            setIsDark(dark);
+            applyTheme(dark);
+        };
+        update();
+        saveTheme(theme);
+        return theme === 'system' ? watchSystemTheme(update) : undefined;
+    }, [theme]);
+
+    const exportFileName = () => {
+        const plottedFiles = fileOrder.filter(name => selectedFiles.has(name));
+        return plottedFiles.length > 0 ? `plot_${plottedFiles.join('_')}`.replace(/\.csv/g, '') : 'plot';
+    };
+
+    const handleDownloadPlot = (options: ImageExportOptions) => {
+        // The figure is exported as drawn, so the user's notes and highlights are part of the image
+        if (plotRef.current) {
+            exportPlotImage(plotRef.current, exportFileName(), options).catch(err => setError(`Export failed: ${err.message}`));
         }
     };
 
+    const handleExportData = (options: DataExportOptions) => {
+        exportPlotData(tracesToPlot.filter((trace: PlotlyTrace) => trace.visible !== 'legendonly'), exportFileName(), options);
+    };
+
     const handleDragEnter = (e: React.DragEvent<HTMLElement>) => {
         e.preventDefault();
         e.stopPropagation();
@@ -274,111 +907,590 @@ const App: React.FC = () => {
     };
 
 
-    const tracesToPlot = useMemo(() => {
-        const traces: PlotlyTrace[] = [];
-        fileOrder.forEach(fileName => {
-            if (selectedFiles.has(fileName) && parsedFileData[fileName]) {
-                 const fileTraces = JSON.parse(JSON.stringify(parsedFileData[fileName]));
-                 const style = fileStyles[fileName] || 'solid';
-                 fileTraces.forEach((trace: PlotlyTrace) => {
-                     trace.line.dash = style;
-                     traces.push(trace);
-                 });
-            }
-        });
-        return traces;
-    }, [fileOrder, selectedFiles, parsedFileData, fileStyles]);
+    // Derived traces are recomputed whenever the traces they are built from change
+    const { data: derivedFileData, errors: derivedErrors } = useMemo(
+        () => computeDerivedFileData(derivedDefinitions, parsedFileData),
+        [derivedDefinitions, parsedFileData]
+    );
+    const fileData: ParsedFileData = useMemo(() => ({ ...parsedFileData, ...derivedFileData }), [parsedFileData, derivedFileData]);
 
-    const plotLayout = useMemo(() => {
-        if (tracesToPlot.length === 0) return {};
+    // Smith chart and polar views can only show Touchstone data, so other files are left out while they are active.
+    const showsComplexPlane = isComplexPlaneView(sParamView, fileOrder, selectedFiles, rawTables);
 
-        const legendShapes: any[] = [];
-        const legendAnnotations: any[] = [];
-        const plottedFiles = fileOrder.filter(name => selectedFiles.has(name));
+    // The statistics view combines the selected files into the mean and envelope of each shared column,
+    // filed under a name of its own so markers, masks and styles work on them like on any other trace
+    const statisticsActive = statistics.enabled && !showsComplexPlane;
+    const allFileData: ParsedFileData = useMemo(
+        () => buildPlottedFileData(fileData, { fileOrder, selectedFiles, fileLabels, rawTables, statistics, palette, statisticsActive }),
+        [fileData, fileOrder, selectedFiles, fileLabels, rawTables, statistics, palette, statisticsActive]
+    );
 
-        plottedFiles.forEach((fileName, index) => {
-            const style = fileStyles[fileName] || 'solid';
-            const yPos = 1.0 - (index * 0.08);
-            const truncatedFileName = fileName.length > 20 ? `${fileName.substring(0, 17)}...` : fileName;
-            const styleName = style.charAt(0).toUpperCase() + style.slice(1);
-            const traceCount = parsedFileData[fileName]?.length || 0;
-            const traceText = traceCount > 0 ? `, ${traceCount} trace${traceCount > 1 ? 's' : ''}` : '';
+    // The files whose traces are plotted, in order
+    const plottedFileNames = useMemo(
+        () => plottedFileNamesOf(allFileData, fileOrder, selectedFiles, rawTables, showsComplexPlane, statisticsActive),
+        [allFileData, fileOrder, selectedFiles, rawTables, showsComplexPlane, statisticsActive]
+    );
 
+    // How the X values of the selected files and derived traces are read
+    const xColumnType: XColumnType = useMemo(
+        () => resolveXColumnType(fileOrder, selectedFiles, fileData),
+        [fileOrder, selectedFiles, fileData]
+    );
+    const plotXAxis: AxisSettings = useMemo(() => plotXAxisSettings(xAxis, xColumnType), [xAxis, xColumnType]);
 
-            legendShapes.push({
-                type: 'line', xref: 'paper', yref: 'paper',
-                x0: 1.02, y0: yPos, x1: 1.07, y1: yPos,
-                line: { color: '#1f2937', width: 2, dash: style }
-            });
+    // Default colors follow the order of all loaded traces, so they don't shift when files are shown or hidden
+    const traceColors = useMemo(() => defaultTraceColors(fileOrder, allFileData, palette), [fileOrder, allFileData, palette]);
 
-            legendAnnotations.push({
-                xref: 'paper', yref: 'paper',
-                x: 1.08, y: yPos,
-                text: `<b>${truncatedFileName}</b> (${styleName}${traceText})`,
-                showarrow: false, xanchor: 'left', yanchor: 'middle',
-                font: { size: 12, color: '#374151' }
-            });
+    // Traces with a full-resolution series are re-downsampled for the visible X range, so zooming in reveals detail.
+    const { traces: tracesToPlot, traceKeys: plottedTraceKeys, traceFiles: plottedTraceFiles, downsampleRatios } = useMemo(() => buildPlotTraces({
+        plottedFileNames, allFileData, fileStyles, showsComplexPlane, zoomRange, plotXAxisType: plotXAxis.type, layoutMode, traceAxes, traceStyles, traceColors,
+    }), [plottedFileNames, allFileData, fileStyles, showsComplexPlane, zoomRange, plotXAxis.type, layoutMode, traceAxes, traceStyles, traceColors]);
+
+    const closeAllStreams = () => {
+        streamConnectionsRef.current.forEach(connection => connection.close());
+        streamConnectionsRef.current.clear();
+        streamBuffersRef.current.clear();
+        setStreams({});
+    };
+
+    // A stream either becomes a file of its own or appends its rows to a loaded file, continuing its traces
+    const handleConnectStream = (name: string, settings: StreamSettings, appendTo: string | null) => {
+        const fileName = appendTo ?? uniqueName(name, isNameTaken);
+        setStreams(prev => ({ ...prev, [fileName]: { settings, status: 'connecting', paused: false, autoScroll: true, received: 0 } }));
+        streamBuffersRef.current.set(fileName, []);
+        const connection = openStream(
+            settings,
+            batch => streamBuffersRef.current.get(fileName)?.push(batch),
+            (status, message) => setStreams(prev => (prev[fileName] && (prev[fileName].status !== status || prev[fileName].message !== message)
+                ? { ...prev, [fileName]: { ...prev[fileName], status, message } }
+                : prev))
+        );
+        streamConnectionsRef.current.set(fileName, connection);
+    };
+
+    // The received rows stay loaded as a normal file
+    const handleDisconnectStream = (fileName: string) => {
+        streamConnectionsRef.current.get(fileName)?.close();
+        streamConnectionsRef.current.delete(fileName);
+        streamBuffersRef.current.delete(fileName);
+        setStreams(prev => {
+            const { [fileName]: _removed, ...rest } = prev;
+            return rest;
         });
+    };
 
-        if (plottedFiles.length > 0) {
-            legendAnnotations.push({
-                xref: 'paper', yref: 'paper', x: 1.02, y: 1.08,
-                text: '<b>File Styles</b>', showarrow: false, xanchor: 'left',
+    // Applies the rows received since the last flush to the tables and traces of the streams
+    const flushStreams = () => {
+        const tables: Record<string, RawTable> = {};
+        const traces: ParsedFileData = {};
+        const mappings: Record<string, ColumnMapping> = {};
+        const received: Record<string, number> = {};
+        let latestX = -Infinity;
+        (Object.entries(streams) as [string, LiveStream][]).forEach(([fileName, stream]) => {
+            const buffer = streamBuffersRef.current.get(fileName);
+            if (!buffer || buffer.length === 0) return;
+            if (stream.paused) {
+                streamBuffersRef.current.set(fileName, trimBatches(buffer, stream.settings.windowSize));
+                return;
+            }
+            streamBuffersRef.current.set(fileName, []);
+            let table = rawTables[fileName];
+            buffer.forEach(batch => { table = appendRows(table, batch, stream.settings.windowSize); });
+            received[fileName] = buffer.reduce((count, batch) => count + batch.rows.length, 0);
+            if (table.headers.length < 2) return;
+            const mapping = columnMappings[fileName] ?? { x: table.headers[0], y: table.headers.slice(1) };
+            tables[fileName] = table;
+            mappings[fileName] = mapping;
+            traces[fileName] = buildFileTraces(fileName, table, mapping, sParamView, timeZone).traces;
+            if (stream.autoScroll && selectedFiles.has(fileName) && traces[fileName].length > 0) {
+                latestX = traceSeries(traces[fileName][0]).x.reduce((max, x) => (x > max ? x : max), latestX);
+            }
+        });
+        if (Object.keys(received).length === 0) return;
+
+        setStreams(prev => {
+            const next = { ...prev };
+            Object.keys(received).forEach(fileName => {
+                if (next[fileName]) next[fileName] = { ...next[fileName], received: next[fileName].received + received[fileName] };
+            });
+            return next;
+        });
+        const newNames = Object.keys(tables).filter(fileName => !fileOrder.includes(fileName));
+        setRawTables(prev => ({ ...prev, ...tables }));
+        setParsedFileData(prev => ({ ...prev, ...traces }));
+        setColumnMappings(prev => ({ ...mappings, ...prev }));
+        if (newNames.length > 0) {
+            setFileOrder(prev => [...prev, ...newNames]);
+            setSelectedFiles(prev => new Set([...prev, ...newNames]));
+            setFileStyles(prev => ({ ...prev, ...Object.fromEntries(newNames.map((fileName, i) => [fileName, LINE_STYLES[(fileOrder.length + i) % LINE_STYLES.length]])) }));
+        }
+        // A zoomed X range keeps its width and moves along so its right edge is the newest row
+        if (Number.isFinite(latestX)) {
+            const edge = plotXAxis.type === 'log' ? Math.log10(latestX) : latestX;
+            setZoomRange(prev => {
+                if (!prev.x || !Number.isFinite(edge)) return prev;
+                const span = Math.abs(prev.x[1] - prev.x[0]);
+                return { ...prev, x: prev.x[0] > prev.x[1] ? [edge, edge - span] : [edge - span, edge] };
             });
         }
-        
-        // Calculate the vertical position for the default legend to avoid overlap
-        // The custom legend has a title at y=1.08 and each item takes ~0.08 height
-        const customLegendHeight = (plottedFiles.length * 0.08) + 0.08; // Items + title space
-        const defaultLegendTopY = 1.08 - customLegendHeight;
-
-        return {
-             title: { text: `<b>Plot of ${plottedFiles.join(', ')}</b>`, font: { size: 20, color: '#1f2937' } },
-             xaxis: {
-                 title: { text: `<b>${xAxisTitle || tracesToPlot[0]?._headers?.x || 'X-Axis'}</b>`, font: { size: 14, color: '#374151' } },
-                 gridcolor: '#e2e8f0',
-                 tickfont: { color: '#718096' }
-             },
-             yaxis: {
-                 title: { text: `<b>${yAxisTitle || 'Value'}</b>`, font: { size: 14, color: '#374151' } },
-                 gridcolor: '#e2e8f0',
-                 tickfont: { color: '#718096' }
-             },
-             margin: { t: 60, l: 70, r: 250, b: 60 },
-             hovermode: 'x unified',
-             showlegend: true,
-             legend: {
-                x: 1.02,
-                y: defaultLegendTopY,
-                xanchor: 'left',
-                yanchor: 'top',
-                bgcolor: 'rgba(255,255,255,0.6)',
-                bordercolor: '#e2e8f0',
-                borderwidth: 1
-             },
-             plot_bgcolor: 'var(--plot-bg)',
-             paper_bgcolor: 'var(--plot-bg)',
-             shapes: legendShapes,
-             annotations: legendAnnotations,
+    };
+    flushStreamsRef.current = flushStreams;
+
+    const hasStreams = Object.keys(streams).length > 0;
+    useEffect(() => {
+        if (!hasStreams) return;
+        const timer = setInterval(() => flushStreamsRef.current(), STREAM_FLUSH_INTERVAL);
+        return () => clearInterval(timer);
+    }, [hasStreams]);
+
+    // Streams are closed with the page
+    useEffect(() => () => streamConnectionsRef.current.forEach(connection => connection.close()), []);
+
+    // Applies what was dragged or typed on the plot to the notes and highlights. Their annotations and
+    // shapes are named after their ids; edits of any other item are undone by the redraw.
+    const handlePlotEdit = (event: Record<string, any>) => {
+        const edits = Object.entries(event).flatMap(([key, value]) => {
+            const match = /^(annotations|shapes)\[(\d+)\]\.(\w+)$/.exec(key);
+            return match ? [{ item: (plotLayout as Record<string, any>)[match[1]]?.[Number(match[2])], property: match[3], value }] : [];
+        });
+        if (edits.length === 0) return;
+        setPlotEditRevision(prev => prev + 1);
+
+        // Positions are reported in axis units: log10 on log axes and date strings on date axes
+        const fromAxisValue = (settings: AxisSettings, value: unknown) => {
+            const number = typeof value === 'string' && xColumnType === 'datetime' ? parsePlotlyDate(value) : Number(value);
+            return settings.type === 'log' ? 10 ** number : number;
         };
-    }, [tracesToPlot, fileOrder, selectedFiles, fileStyles, xAxisTitle, yAxisTitle, parsedFileData]);
+        const noteChanges: Record<string, Partial<PlotNote>> = {};
+        const highlightChanges: Record<string, Partial<PlotHighlight>> = {};
+        edits.forEach(({ item, property, value }) => {
+            const id: string | undefined = item?.name;
+            if (id && notes.some(note => note.id === id)) {
+                const changes = noteChanges[id] ?? (noteChanges[id] = {});
+                const ySettings = layoutMode === 'grid' ? yAxes.y : yAxes[item.yref as YAxisId] ?? yAxes.y;
+                if (property === 'x') changes.x = fromAxisValue(plotXAxis, value);
+                if (property === 'y') changes.y = fromAxisValue(ySettings, value);
+                if (property === 'ax') changes.ax = Number(value);
+                if (property === 'ay') changes.ay = Number(value);
+                if (property === 'text') changes.text = String(value).trim();
+            } else if (id && highlights.some(highlight => highlight.id === id)) {
+                const changes = highlightChanges[id] ?? (highlightChanges[id] = {});
+                if (property === 'x0') changes.start = fromAxisValue(plotXAxis, value);
+                if (property === 'x1') changes.end = fromAxisValue(plotXAxis, value);
+            }
+        });
+        // A note whose text was deleted on the plot is removed
+        setNotes(prev => prev
+            .map(note => (noteChanges[note.id] ? { ...note, ...noteChanges[note.id] } : note))
+            .filter(note => note.text !== ''));
+        setHighlights(prev => prev.map(highlight => {
+            if (!highlightChanges[highlight.id]) return highlight;
+            const { start, end } = { ...highlight, ...highlightChanges[highlight.id] };
+            return { ...highlight, start: Math.min(start, end), end: Math.max(start, end) };
+        }));
+    };
 
+    const handleRelayout = (event: Record<string, any>) => {
+        handlePlotEdit(event);
+        const readRange = (axis: string): [number, number] | null | undefined => {
+            if (event[`${axis}.autorange`]) return null;
+            if (Array.isArray(event[`${axis}.range`])) return [event[`${axis}.range`][0], event[`${axis}.range`][1]];
+            if (`${axis}.range[0]` in event && `${axis}.range[1]` in event) {
+                return [event[`${axis}.range[0]`], event[`${axis}.range[1]`]];
+            }
+            return undefined; // This axis was not changed
+        };
+        // The X axes of the grid panels match the first one, so a zoom in any panel moves the shared X range
+        const xAxisName = Object.keys(event).map(name => name.split('.')[0]).find(name => /^xaxis\d*$/.test(name)) ?? 'xaxis';
+        const xRange = readRange(xAxisName);
+        // Date axes report their range as date strings
+        const x = xRange && xColumnType === 'datetime' ? xRange.map(parsePlotlyDate) as [number, number] : xRange;
+        // In the grid the other Y axes belong to the panels of other files, whose zoom isn't kept
+        const y = layoutMode === 'grid' ? undefined : readRange('yaxis');
+        const y2 = layoutMode === 'grid' ? undefined : readRange('yaxis2');
+        const y3 = layoutMode === 'grid' ? undefined : readRange('yaxis3');
+        if (x === undefined && y === undefined && y2 === undefined && y3 === undefined) return;
+        setZoomRange(prev => ({
+            x: x === undefined ? prev.x : x,
+            y: y === undefined ? prev.y : y,
+            y2: y2 === undefined ? prev.y2 : y2,
+            y3: y3 === undefined ? prev.y3 : y3,
+        }));
+    };
+
+    const handleAxisChange = (axis: 'x' | YAxisId, settings: AxisSettings) => {
+        const previous = axis === 'x' ? xAxis : yAxes[axis];
+        // A zoom no longer applies once the user fixes the range, switches the scale or flips the axis
+        if (settings.type !== previous.type || settings.range !== previous.range || settings.reversed !== previous.reversed) {
+            setZoomRange(prev => ({ ...prev, [axis]: null }));
+        }
+        if (axis === 'x') {
+            setXAxis(settings);
+        } else {
+            setYAxes(prev => ({ ...prev, [axis]: settings }));
+        }
+    };
+
+    const handleLayoutModeChange = (mode: PlotLayoutMode) => {
+        setLayoutMode(mode);
+        setZoomRange(prev => ({ ...prev, y: null, y2: null, y3: null }));
+    };
+
+    const tracesByKey = useMemo(() => tracesByKeyOf(allFileData), [allFileData]);
+
+    const traceLabel = (key: string) => traceStyles[key]?.displayName || tracesByKey[key]?.name || key;
+
+    const handleTraceStyleChange = (key: string, style: TraceStyle) => {
+        setTraceStyles(prev => ({ ...prev, [key]: style }));
+    };
+
+    // Clicking a legend entry toggles the stored visibility, so the choice survives the next re-plot
+    const handleLegendClick = (event: { curveNumber: number }) => {
+        const key = plottedTraceKeys[event.curveNumber];
+        // Limit mask traces come after the data traces and keep Plotly's own toggle
+        if (!key) return true;
+        handleTraceStyleChange(key, { ...traceStyles[key], hidden: !traceStyles[key]?.hidden });
+        return false;
+    };
+
+    // Every plotted trace is checked at full resolution against the masks on its Y axis
+    const limitResults = useMemo(
+        () => evaluatePlottedLimits({ limitMasks, plottedTraceKeys, tracesByKey, traceAxes, layoutMode, showsComplexPlane }),
+        [limitMasks, plottedTraceKeys, tracesByKey, traceAxes, layoutMode, showsComplexPlane]
+    );
+
+    // The worst-case margin of each file over all of its checked traces
+    const fileLimitMargins = useMemo(() => {
+        const margins: Record<string, number> = {};
+        plottedTraceKeys.forEach((key, index) => {
+            const margin = limitResults[key]?.margin;
+            if (margin === null || margin === undefined) return;
+            const fileName = plottedTraceFiles[index];
+            margins[fileName] = Math.min(margins[fileName] ?? Infinity, margin);
+        });
+        return margins;
+    }, [limitResults, plottedTraceKeys, plottedTraceFiles]);
+
+    // The masks are drawn as extra traces after the data traces, once per panel that shows their Y axis
+    const limitTraces = useMemo(
+        () => buildLimitTraces({ limitMasks, plottedTraceKeys, plottedTraceFiles, traceAxes, layoutMode, showsComplexPlane }),
+        [limitMasks, plottedTraceKeys, plottedTraceFiles, traceAxes, layoutMode, showsComplexPlane]
+    );
+
+    // Summary statistics of every selected trace, read from the full-resolution data
+    const traceSummaries = useMemo(() => fileOrder
+        .filter(fileName => selectedFiles.has(fileName))
+        .flatMap(fileName => (fileData[fileName] || []).map(trace => ({
+            key: traceKey(fileName, trace._headers.y),
+            label: traceStyles[traceKey(fileName, trace._headers.y)]?.displayName || trace.name,
+            summary: summarizeSeries(traceSeries(trace)),
+        }))), [fileOrder, selectedFiles, fileData, traceStyles]);
+
+    const plotData = useMemo(() => plotDataOf(tracesToPlot, limitTraces, plotTemplate), [tracesToPlot, limitTraces, plotTemplate]);
+
+    // Marker values are read from the full-resolution data, so they don't depend on downsampling
+    const markerReadouts: MarkerReadout[] = useMemo(
+        () => buildMarkerReadouts(markers, tracesByKey, plottedTraceKeys, traceLabel),
+        [markers, tracesByKey, plottedTraceKeys, traceStyles]
+    );
+
+    const addMarker = (key: string, x: number) => {
+        setMarkers(prev => [...prev, { id: `marker-${Date.now()}-${prev.length}`, traceKey: key, x }]);
+    };
+
+    const handlePlotClick = (event: { points: any[] }) => {
+        const point = event.points?.[0];
+        if (!(clickToPlaceMarkers || clickToPlaceNotes) || !point) return;
+        const x = typeof point.x === 'string' && xColumnType === 'datetime' ? parsePlotlyDate(point.x) : point.x;
+        if (typeof x !== 'number' || !Number.isFinite(x)) return;
+        if (clickToPlaceNotes) {
+            if (typeof point.y !== 'number' || !Number.isFinite(point.y)) return;
+            const yAxis = layoutMode === 'grid' ? 'y' : traceAxes[plottedTraceKeys[point.curveNumber]] ?? 'y';
+            setNotes(prev => [...prev, { id: `note-${Date.now()}`, ...noteDraft, text: noteDraft.text.trim() || 'Note', x, y: point.y, yAxis, ax: 0, ay: -40 }]);
+            return;
+        }
+        const key = snapTraceKey || plottedTraceKeys[point.curveNumber];
+        if (key) {
+            addMarker(key, x);
+        }
+    };
+
+    const handleAddSearchMarker = (search: 'peak' | 'min' | 'drop3dB') => {
+        const trace = tracesByKey[snapTraceKey];
+        if (!trace) return;
+        const series = traceSeries(trace);
+        if (search === 'drop3dB') {
+            const { lower, upper } = findDropPoints(series, 3);
+            [lower, upper].forEach(x => { if (x !== null) addMarker(snapTraceKey, x); });
+            if (lower === null && upper === null) {
+                setError(`${trace.name} never falls 3 dB below its peak`);
+            }
+            return;
+        }
+        const x = findExtremum(series, search === 'peak' ? 'max' : 'min');
+        if (x !== null) {
+            addMarker(snapTraceKey, x);
+        }
+    };
+
+    const plotLayout = useMemo(() => buildPlotLayout({
+        tracesToPlot, plottedTraceKeys, plottedTraceFiles, plottedFileNames, allFileData, fileOrder, selectedFiles, fileStyles, fileLabels,
+        rawTables, columnMappings, plotXAxis, xColumnType, yAxes, traceAxes, layoutMode, sParamView, showsComplexPlane, zoomRange,
+        referenceLines, limitResults, markers, markerReadouts, notes, highlights, plotTemplate, isDark, editRevision: plotEditRevision,
+    }), [tracesToPlot, fileOrder, selectedFiles, fileStyles, fileLabels, plotXAxis, xColumnType, yAxes, traceAxes, layoutMode, referenceLines, allFileData, rawTables, columnMappings, sParamView, showsComplexPlane, zoomRange, markerReadouts, markers, notes, highlights, plotEditRevision, plotTemplate, isDark, plottedTraceKeys, plottedTraceFiles, plottedFileNames, limitResults]);
+
+    const editsOnPlot = editAnnotationsOnPlot && (notes.length > 0 || highlights.length > 0);
     const plotConfig = useMemo(() => ({
         responsive: true,
         scrollZoom: true,
         displaylogo: false,
-        modeBarButtonsToRemove: ['select2d', 'lasso2d']
-    }), []);
+        modeBarButtonsToRemove: ['select2d', 'lasso2d'],
+        // Plotly can't limit editing to some annotations and shapes; handlePlotEdit keeps only the edits of the user's own
+        ...(editsOnPlot ? { edits: { annotationPosition: true, annotationTail: true, annotationText: true, shapePosition: true } } : {})
+    }), [editsOnPlot]);
 
     const loadedFileCount = Object.keys(parsedFileData).length;
+    const derivedNames = new Set(derivedDefinitions.map(definition => definition.name));
+    // The files shown in the list: those whose name, label or group contains the filter text
+    const filterText = fileFilter.trim().toLowerCase();
+    const filteredFileNames = fileOrder.filter(fileName => !filterText
+        || [fileName, fileLabel(fileName), fileGroups[fileName] ?? ''].some(text => text.toLowerCase().includes(filterText)));
+    const groupNames = Array.from(new Set(fileOrder.map(fileName => fileGroups[fileName]).filter((group): group is string => Boolean(group))));
+    const availableTraces = fileOrder.flatMap(fileName => (allFileData[fileName] || []).map(trace => ({
+        key: traceKey(fileName, trace._headers.y),
+        label: traceLabel(traceKey(fileName, trace._headers.y)),
+    })));
+    const loadingFileNames = Object.keys(loadProgress);
+    const isLoading = loadingFileNames.length > 0;
+    const hasTouchstoneFiles = Object.values(rawTables as Record<string, RawTable>).some(table => table.touchstone);
+
+    const renderFileEntry = (fileName: string) => (
+        <div
+            key={fileName}
+            draggable={renamingFile !== fileName}
+            onDragStart={(e) => {
+                setDraggedFile(fileName);
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', fileName);
+            }}
+            onDragOver={(e) => {
+                if (!draggedFile) return;
+                e.preventDefault();
+                e.stopPropagation();
+                if (dropTarget !== fileName) setDropTarget(fileName);
+            }}
+            onDrop={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                handleFileDrop(fileName);
+            }}
+            onDragEnd={() => {
+                setDraggedFile(null);
+                setDropTarget(null);
+            }}
+            className={`py-3 px-2.5 rounded-lg hover:bg-gray-100 transition-colors duration-200 border-t-2 ${draggedFile && dropTarget === fileName && draggedFile !== fileName ? 'border-indigo-400' : 'border-transparent'} ${draggedFile === fileName ? 'opacity-50' : ''}`}
+        >
+            <div className="flex items-center justify-between">
+                <div className="flex items-center min-w-0 flex-1">
+                    <span className="mr-1.5 text-gray-400 cursor-move select-none" title="Drag to reorder" aria-hidden="true">⠿</span>
+                    <input
+                        type="checkbox"
+                        id={`check-${fileName}`}
+                        checked={selectedFiles.has(fileName)}
+                        onChange={() => handleSelectionChange(fileName)}
+                        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {renamingFile === fileName ? (
+                        <input
+                            type="text"
+                            defaultValue={fileLabel(fileName)}
+                            autoFocus
+                            onBlur={(e) => handleRenameFile(fileName, e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRenameFile(fileName, e.currentTarget.value);
+                                if (e.key === 'Escape') setRenamingFile(null);
+                            }}
+                            placeholder={fileName}
+                            className="ml-3 min-w-0 flex-1 p-1 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                            aria-label={`Label of ${fileName}`}
+                        />
+                    ) : (
+                        <label htmlFor={`check-${fileName}`} className="ml-3 min-w-0 flex-1 text-gray-800 font-medium truncate text-sm" title={fileName}>
+                            {fileLabel(fileName)}
+                            {downsampledFiles.has(fileName) && (
+                                <span className="text-xs text-gray-500 ml-1 font-medium">
+                                    {downsampleRatios[fileName] === undefined
+                                        ? '(downsampled)'
+                                        : downsampleRatios[fileName] > 1
+                                            ? `(downsampled ${Math.round(downsampleRatios[fileName])}:1)`
+                                            : '(full resolution)'}
+                                </span>
+                            )}
+                        </label>
+                    )}
+                </div>
+                {fileLimitMargins[fileName] !== undefined && (
+                    <span
+                        className={`ml-2 px-1.5 py-0.5 rounded text-xs font-bold flex-shrink-0 ${fileLimitMargins[fileName] >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+                        title="Worst-case margin to the limit masks"
+                    >
+                        {fileLimitMargins[fileName] >= 0 ? 'PASS' : 'FAIL'} {formatValue(fileLimitMargins[fileName])}
+                    </span>
+                )}
+                {importReports[fileName] && (
+                    <button
+                        type="button"
+                        onClick={() => setOpenReport({ fileName, report: importReports[fileName] })}
+                        className={`ml-2 text-xs font-medium hover:underline flex-shrink-0 ${countImportIssues(importReports[fileName]) > 0 ? 'text-amber-700' : 'text-indigo-600'}`}
+                        title="Rows, column types and problems found while importing"
+                    >
+                        {countImportIssues(importReports[fileName]) > 0 ? `Report (${countImportIssues(importReports[fileName])})` : 'Report'}
+                    </button>
+                )}
+                {rawTables[fileName] && (
+                    <button
+                        type="button"
+                        onClick={() => toggleMappingPanel(fileName)}
+                        className="ml-2 text-xs font-medium text-indigo-600 hover:underline flex-shrink-0"
+                        aria-expanded={mappingPanelsOpen.has(fileName)}
+                    >
+                        Columns
+                    </button>
+                )}
+            </div>
+            <div className="mt-2.5 pl-8">
+                <div className="flex items-center gap-2">
+                    <select
+                        value={fileStyles[fileName] || 'solid'}
+                        onChange={(e) => handleStyleChange(fileName, e.target.value)}
+                        className="flex-1 min-w-0 p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                        aria-label={`Line style for ${fileName}`}
+                    >
+                        {LINE_STYLES.map(style => (
+                            <option key={style} value={style}>
+                                {style.charAt(0).toUpperCase() + style.slice(1)}
+                            </option>
+                        ))}
+                    </select>
+                    <input
+                        // Remounted when the group changes elsewhere, e.g. by dragging the file into another group
+                        key={fileGroups[fileName] ?? ''}
+                        type="text"
+                        list="file-group-names"
+                        defaultValue={fileGroups[fileName] ?? ''}
+                        onBlur={(e) => handleFileGroupChange(fileName, e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleFileGroupChange(fileName, e.currentTarget.value); }}
+                        placeholder="No group"
+                        className="w-28 p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                        aria-label={`Group of ${fileName}`}
+                    />
+                </div>
+                {urlSources[fileName] && (
+                    <div className="flex items-center gap-2 mt-1.5">
+                        <select
+                            value={urlSources[fileName].refreshSeconds}
+                            onChange={(e) => setUrlSources(prev => ({ ...prev, [fileName]: { ...prev[fileName], refreshSeconds: Number(e.target.value) } }))}
+                            className="flex-1 p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                            aria-label={`Auto-refresh of ${fileName}`}
+                            title={urlSources[fileName].url}
+                        >
+                            {REFRESH_INTERVALS.map(interval => <option key={interval.value} value={interval.value}>{interval.value === 0 ? 'Auto-refresh off' : `Refresh ${interval.label.toLowerCase()}`}</option>)}
+                        </select>
+                        <button type="button" onClick={() => refreshUrlSource(fileName)} className="text-xs font-medium text-indigo-600 hover:underline flex-shrink-0">Refresh now</button>
+                    </div>
+                )}
+                <div className="flex items-center gap-3 mt-1.5 text-xs font-medium">
+                    <button type="button" onClick={() => setRenamingFile(fileName)} className="text-indigo-600 hover:underline">Rename</button>
+                    {rawTables[fileName] && !streams[fileName] && !urlSources[fileName] && (
+                        <button type="button" onClick={() => handleReloadFile(fileName)} className="text-indigo-600 hover:underline" title="Pick the changed file to replace this one's data">
+                            Reload…
+                        </button>
+                    )}
+                    <button type="button" onClick={() => handleRemoveFile(fileName)} className="text-gray-500 hover:text-red-600" aria-label={`Remove ${fileName}`}>Remove</button>
+                </div>
+            </div>
+            {derivedErrors[fileName] && (
+                <p className="mt-1 pl-8 text-xs text-red-600">{derivedErrors[fileName]}</p>
+            )}
+            {mappingPanelsOpen.has(fileName) && rawTables[fileName] && columnMappings[fileName] && (
+                <ColumnMappingPanel
+                    fileName={fileName}
+                    headers={mappableHeaders(rawTables[fileName])}
+                    mapping={columnMappings[fileName]}
+                    onChange={(mapping) => handleMappingChange(fileName, mapping)}
+                    allowXChange={!rawTables[fileName].touchstone}
+                    detectedXFormat={detectXFormat(rawTables[fileName].columns[columnMappings[fileName].x] ?? [])}
+                />
+            )}
+        </div>
+    );
+
+    // Ungrouped files are listed on their own; the files of a group are listed together where its first file is
+    const fileListBlocks: { group: string | null; files: string[] }[] = [];
+    filteredFileNames.forEach(fileName => {
+        const group = fileGroups[fileName] ?? null;
+        const block = group === null ? undefined : fileListBlocks.find(candidate => candidate.group === group);
+        if (block) {
+            block.files.push(fileName);
+        } else {
+            fileListBlocks.push({ group, files: [fileName] });
+        }
+    });
+
+    const renderFileGroup = (group: string, members: string[]) => {
+        const selectedCount = members.filter(fileName => selectedFiles.has(fileName)).length;
+        const isCollapsed = collapsedGroups.has(group);
+        return (
+            <div key={`group:${group}`} className="rounded-lg border border-gray-200">
+                <div
+                    onDragOver={(e) => {
+                        if (!draggedFile) return;
+                        e.preventDefault();
+                        e.stopPropagation();
+                    }}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleFileDrop(members[0]);
+                    }}
+                    className="flex items-center gap-2 px-2.5 py-2 bg-gray-50 rounded-t-lg"
+                >
+                    <input
+                        type="checkbox"
+                        checked={selectedCount === members.length}
+                        ref={(element) => { if (element) element.indeterminate = selectedCount > 0 && selectedCount < members.length; }}
+                        onChange={(e) => handleGroupSelectionChange(members, e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        aria-label={`Show the files of ${group}`}
+                    />
+                    <button type="button" onClick={() => toggleGroupCollapsed(group)} className="flex-1 min-w-0 flex items-center gap-1.5 text-left text-sm font-bold text-gray-700" aria-expanded={!isCollapsed}>
+                        <span className="text-xs text-gray-500">{isCollapsed ? '▸' : '▾'}</span>
+                        <span className="truncate" title={group}>{group}</span>
+                        <span className="text-xs font-normal text-gray-500 flex-shrink-0">({selectedCount}/{members.length})</span>
+                    </button>
+                </div>
+                {!isCollapsed && <div className="space-y-1 p-1">{members.map(renderFileEntry)}</div>}
+            </div>
+        );
+    };
 
     return (
         <div className="flex flex-col md:flex-row w-full h-screen bg-gray-50">
             {/* Sidebar */}
             <aside className="w-full md:w-80 lg:w-96 bg-white border-r border-gray-200 p-6 flex flex-col space-y-6 overflow-y-auto">
-                <div className="text-left">
-                    <h1 className="text-2xl font-bold text-gray-800">CSV Plotter</h1>
-                    <p className="text-gray-500 mt-1">Upload and compare CSV files.</p>
+                <div className="flex items-start justify-between gap-3">
+                    <div className="text-left">
+                        <h1 className="text-2xl font-bold text-gray-800">CSV Plotter</h1>
+                        <p className="text-gray-500 mt-1">Upload and compare CSV files.</p>
+                    </div>
+                    <select
+                        value={theme}
+                        onChange={(e) => setTheme(e.target.value as Theme)}
+                        className="p-1.5 border border-gray-300 rounded-md text-xs focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                        aria-label="Theme"
+                    >
+                        {THEMES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
                 </div>
 
                 {/* Actions */}
@@ -391,17 +1503,31 @@ const App: React.FC = () => {
                         id="csv-file-input"
                         ref={fileInputRef}
                         type="file"
-                        accept=".csv"
+                        accept={ACCEPTED_FILE_TYPES}
                         multiple
                         className="hidden"
                         onChange={handleFileChange}
                     />
+                    <input ref={reloadInputRef} type="file" className="hidden" onChange={handleReloadFileChange} />
                     {loadedFileCount > 0 && (
                         <button onClick={handleClearAll} className="action-button btn-secondary p-3">
                             <ClearIcon />
                         </button>
                     )}
                 </div>
+                <div className="flex gap-2 -mt-3">
+                    <button type="button" onClick={() => setDataSourceDialog('paste')} className="flex-1 px-2 py-1.5 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100">Paste Data</button>
+                    <button type="button" onClick={() => setDataSourceDialog('url')} className="flex-1 px-2 py-1.5 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100">Open URL</button>
+                </div>
+                <label className="flex items-center text-sm text-gray-600 -mt-3">
+                    <input
+                        type="checkbox"
+                        checked={alwaysPreviewImports}
+                        onChange={(e) => setAlwaysPreviewImports(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span className="ml-2">Always preview CSV imports</span>
+                </label>
 
                 {/* Error Display */}
                 {error && (
@@ -409,80 +1535,271 @@ const App: React.FC = () => {
                         <strong>Error:</strong> {error}
                      </div>
                 )}
+                {autosaveError && <p className="text-xs text-amber-700 -mt-3">{autosaveError}</p>}
+
+                {Object.keys(failedImports).length > 0 && (
+                     <div className="p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg text-sm fade-in">
+                        <div className="flex items-center justify-between">
+                            <strong>Not imported</strong>
+                            <button type="button" onClick={() => setFailedImports({})} className="text-xs font-medium text-amber-700 hover:underline">Dismiss</button>
+                        </div>
+                        <ul className="mt-1 space-y-1">
+                            {(Object.entries(failedImports) as [string, ImportReport][]).map(([fileName, report]) => (
+                                <li key={fileName} className="flex items-start gap-2">
+                                    <span className="flex-1 min-w-0 break-words"><span className="font-medium">{fileName}</span>: {report.failure}</span>
+                                    {report.columns.length > 0 && (
+                                        <button type="button" onClick={() => setOpenReport({ fileName, report })} className="text-xs font-medium text-amber-700 hover:underline flex-shrink-0">Details</button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                     </div>
+                )}
+
+                {pendingSharedView && (
+                     <div className="p-3 bg-indigo-50 border border-indigo-200 text-indigo-800 rounded-lg text-sm fade-in">
+                        <strong>Shared view:</strong> load {missingSharedFiles(pendingSharedView, rawTables).join(', ')} to apply it.
+                        <button type="button" onClick={handleDismissSharedView} className="ml-2 text-xs font-medium text-indigo-600 hover:underline">Dismiss</button>
+                     </div>
+                )}
 
                 {/* File List */}
                 {loadedFileCount > 0 && (
                     <div className="flex-grow space-y-2 fade-in">
                          <h3 className="text-md font-bold text-gray-700 border-b pb-2">Uploaded Files</h3>
-                         <div className="space-y-1 pt-2">
-                             {fileOrder.map(fileName => (
-                                 <div key={fileName} className="py-3 px-2.5 rounded-lg hover:bg-gray-100 transition-colors duration-200">
-                                     <div className="flex items-center justify-between">
-                                        <div className="flex items-center min-w-0">
-                                            <input
-                                                type="checkbox"
-                                                id={`check-${fileName}`}
-                                                checked={selectedFiles.has(fileName)}
-                                                onChange={() => handleSelectionChange(fileName)}
-                                                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
-                                            />
-                                            <label htmlFor={`check-${fileName}`} className="ml-3 min-w-0 flex-1 text-gray-800 font-medium truncate text-sm" title={fileName}>
-                                                {fileName}
-                                                {downsampledFiles.has(fileName) && <span className="text-xs text-gray-500 ml-1 font-medium">(downsampled)</span>}
-                                            </label>
-                                        </div>
-                                     </div>
-                                      <div className="mt-2.5 pl-8">
-                                         <select
-                                            value={fileStyles[fileName] || 'solid'}
-                                            onChange={(e) => handleStyleChange(fileName, e.target.value)}
-                                            className="w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
-                                            aria-label={`Line style for ${fileName}`}
-                                        >
-                                            {LINE_STYLES.map(style => (
-                                                <option key={style} value={style}>
-                                                    {style.charAt(0).toUpperCase() + style.slice(1)}
-                                                </option>
-                                            ))}
-                                        </select>
-                                     </div>
+                         {fileOrder.length > 1 && (
+                             <div className="space-y-1.5 pt-2">
+                                 <input
+                                     type="search"
+                                     value={fileFilter}
+                                     onChange={(e) => setFileFilter(e.target.value)}
+                                     placeholder="Filter by name, label or group"
+                                     className="w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                                     aria-label="Filter files"
+                                 />
+                                 <div className="flex items-center gap-3 text-xs font-medium">
+                                     <span className="flex-1 font-normal text-gray-500">
+                                         {filteredFileNames.filter(fileName => selectedFiles.has(fileName)).length} of {filteredFileNames.length} shown
+                                     </span>
+                                     <button type="button" onClick={() => handleBulkSelection('all')} className="text-indigo-600 hover:underline">All</button>
+                                     <button type="button" onClick={() => handleBulkSelection('none')} className="text-indigo-600 hover:underline">None</button>
+                                     <button type="button" onClick={() => handleBulkSelection('invert')} className="text-indigo-600 hover:underline">Invert</button>
                                  </div>
-                             ))}
+                             </div>
+                         )}
+                         <datalist id="file-group-names">
+                             {groupNames.map(group => <option key={group} value={group} />)}
+                         </datalist>
+                         <div
+                             className="space-y-1 pt-2"
+                             onDragOver={(e) => { if (draggedFile) e.preventDefault(); }}
+                             onDrop={(e) => {
+                                 e.preventDefault();
+                                 handleFileDrop(null);
+                             }}
+                         >
+                             {fileListBlocks.map(block => (block.group === null ? renderFileEntry(block.files[0]) : renderFileGroup(block.group, block.files)))}
+                             {draggedFile && (
+                                 <p className="py-2 text-center text-xs text-gray-400 border-2 border-dashed border-gray-200 rounded-lg">Drop here to move to the end, outside any group</p>
+                             )}
                          </div>
                     </div>
                 )}
                 
+                {/* Live Streams */}
+                <div className="space-y-2 fade-in pt-4 border-t">
+                    <h3 className="text-md font-bold text-gray-700">Live Streams</h3>
+                    <StreamPanel
+                        streams={streams}
+                        files={fileOrder
+                            .filter(fileName => rawTables[fileName] && !rawTables[fileName].touchstone && !streams[fileName] && !urlSources[fileName])
+                            .map(fileName => ({ name: fileName, label: fileLabel(fileName) }))}
+                        onConnect={handleConnectStream}
+                        onChange={(name, changes) => setStreams(prev => (prev[name] ? { ...prev, [name]: { ...prev[name], ...changes } } : prev))}
+                        onDisconnect={handleDisconnectStream}
+                    />
+                </div>
+
+                {/* Trace Styles */}
+                {tracesToPlot.length > 0 && (
+                    <div className="space-y-2 fade-in pt-4 border-t">
+                        <h3 className="text-md font-bold text-gray-700">Trace Styles</h3>
+                        <TraceStylePanel
+                            traces={plottedTraceKeys.map(key => ({ key, name: tracesByKey[key]?.name ?? key, defaultColor: traceColors[key] }))}
+                            styles={traceStyles}
+                            onStyleChange={handleTraceStyleChange}
+                            palette={palette}
+                            onPaletteChange={setPalette}
+                            lineStyles={LINE_STYLES}
+                        />
+                    </div>
+                )}
+
+                {/* Statistics */}
+                {loadedFileCount > 0 && !showsComplexPlane && (
+                    <div className="space-y-2 fade-in pt-4 border-t">
+                        <h3 className="text-md font-bold text-gray-700">Statistics</h3>
+                        <StatisticsPanel settings={statistics} onChange={setStatistics} summaries={traceSummaries} {...(xColumnType === 'datetime' ? { formatX: formatTimestamp } : {})} />
+                    </div>
+                )}
+
+                {/* Limit Masks */}
+                {loadedFileCount > 0 && !showsComplexPlane && (
+                    <div className="space-y-2 fade-in pt-4 border-t">
+                        <h3 className="text-md font-bold text-gray-700">Limit Masks</h3>
+                        <LimitMaskPanel
+                            masks={limitMasks}
+                            onAdd={(mask) => setLimitMasks(prev => [...prev, mask])}
+                            onRemove={(id) => setLimitMasks(prev => prev.filter(mask => mask.id !== id))}
+                            xType={xColumnType}
+                        />
+                    </div>
+                )}
+
+                {/* Markers */}
+                {loadedFileCount > 0 && (
+                    <div className="space-y-2 fade-in pt-4 border-t">
+                        <h3 className="text-md font-bold text-gray-700">Markers</h3>
+                        <MarkerPanel
+                            traces={availableTraces}
+                            snapTraceKey={snapTraceKey}
+                            onSnapTraceChange={setSnapTraceKey}
+                            clickToPlace={clickToPlaceMarkers}
+                            onClickToPlaceChange={(enabled) => {
+                                setClickToPlaceMarkers(enabled);
+                                if (enabled) setClickToPlaceNotes(false);
+                            }}
+                            readouts={markerReadouts}
+                            onAddSearchMarker={handleAddSearchMarker}
+                            onRemove={(id) => setMarkers(prev => prev.filter(marker => marker.id !== id))}
+                            onClear={() => setMarkers([])}
+                            {...(xColumnType === 'datetime' ? { formatX: formatTimestamp, formatDeltaX: formatDuration } : {})}
+                        />
+                    </div>
+                )}
+
+                {/* Annotations */}
+                {loadedFileCount > 0 && (
+                    <div className="space-y-2 fade-in pt-4 border-t">
+                        <h3 className="text-md font-bold text-gray-700">Annotations</h3>
+                        <AnnotationsPanel
+                            notes={notes}
+                            highlights={highlights}
+                            draft={noteDraft}
+                            onDraftChange={setNoteDraft}
+                            clickToPlace={clickToPlaceNotes}
+                            onClickToPlaceChange={(enabled) => {
+                                setClickToPlaceNotes(enabled);
+                                if (enabled) setClickToPlaceMarkers(false);
+                            }}
+                            editOnPlot={editAnnotationsOnPlot}
+                            onEditOnPlotChange={setEditAnnotationsOnPlot}
+                            onAddNote={(note) => setNotes(prev => [...prev, note])}
+                            onNoteChange={(id, changes) => setNotes(prev => prev.map(note => (note.id === id ? { ...note, ...changes } : note)))}
+                            onRemoveNote={(id) => setNotes(prev => prev.filter(note => note.id !== id))}
+                            onAddHighlight={(highlight) => setHighlights(prev => [...prev, highlight])}
+                            onHighlightChange={(id, changes) => setHighlights(prev => prev.map(highlight => (highlight.id === id ? { ...highlight, ...changes } : highlight)))}
+                            onRemoveHighlight={(id) => setHighlights(prev => prev.filter(highlight => highlight.id !== id))}
+                            onClear={() => {
+                                setNotes([]);
+                                setHighlights([]);
+                            }}
+                            {...(xColumnType === 'datetime' ? { formatX: formatTimestamp } : {})}
+                            xType={xColumnType}
+                        />
+                    </div>
+                )}
+
+                {/* Derived Traces */}
+                {loadedFileCount > 0 && (
+                    <div className="space-y-2 fade-in pt-4 border-t">
+                        <h3 className="text-md font-bold text-gray-700">Derived Traces</h3>
+                        <div className="pt-2">
+                            <DerivedTraceForm
+                                availableTraces={availableTraces}
+                                existingNames={[...fileOrder, ...Object.keys(parsedFileData)]}
+                                onAdd={handleAddDerived}
+                            />
+                        </div>
+                    </div>
+                )}
+
                 {/* Customize Plot */}
                 {loadedFileCount > 0 && tracesToPlot.length > 0 && (
                      <div className="space-y-2 fade-in pt-4 border-t">
                         <h3 className="text-md font-bold text-gray-700">Customize Plot</h3>
                         <div className="space-y-3 pt-2">
                              <div>
-                                <label htmlFor="x-axis-title" className="block text-sm font-medium text-gray-600 mb-1">X-Axis Title</label>
-                                <input
-                                    type="text"
-                                    id="x-axis-title"
-                                    value={xAxisTitle}
-                                    onChange={(e) => setXAxisTitle(e.target.value)}
-                                    placeholder="e.g., Frequency (GHz)"
-                                    className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
-                                />
-                             </div>
-                             <div>
-                                 <label htmlFor="y-axis-title" className="block text-sm font-medium text-gray-600 mb-1">Y-Axis Title</label>
-                                <input
-                                    type="text"
-                                    id="y-axis-title"
-                                    value={yAxisTitle}
-                                    onChange={(e) => setYAxisTitle(e.target.value)}
-                                    placeholder="e.g., S-Parameter (dB)"
-                                    className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
-                                />
+                                <label htmlFor="plot-template" className="block text-sm font-medium text-gray-600 mb-1">Template</label>
+                                <select
+                                    id="plot-template"
+                                    value={plotTemplate}
+                                    onChange={(e) => setPlotTemplate(e.target.value as PlotTemplateName)}
+                                    className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                                >
+                                    {(Object.keys(PLOT_TEMPLATES) as PlotTemplateName[]).map(name => (
+                                        <option key={name} value={name}>{PLOT_TEMPLATES[name].label}</option>
+                                    ))}
+                                </select>
+                                <p className="mt-1 text-xs text-gray-500">Fonts, gridlines and colors of the plot and of exported figures</p>
                              </div>
-                             <button onClick={handleDownloadPlot} className="action-button btn-primary w-full">
+                             {hasTouchstoneFiles && (
+                                 <div>
+                                    <label htmlFor="s-param-view" className="block text-sm font-medium text-gray-600 mb-1">S-Parameter View</label>
+                                    <select
+                                        id="s-param-view"
+                                        value={sParamView}
+                                        onChange={(e) => handleSParamViewChange(e.target.value as SParameterView)}
+                                        className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                                    >
+                                        {S_PARAMETER_VIEWS.map(view => (
+                                            <option key={view.value} value={view.value}>{view.label}</option>
+                                        ))}
+                                    </select>
+                                 </div>
+                             )}
+                             {!showsComplexPlane && (
+                                 <AxesPanel
+                                     layoutMode={layoutMode}
+                                     onLayoutModeChange={handleLayoutModeChange}
+                                     traces={plottedTraceKeys.map(key => ({ key, label: traceLabel(key) }))}
+                                     traceAxes={traceAxes}
+                                     onTraceAxisChange={(key, axis) => setTraceAxes(prev => ({ ...prev, [key]: axis }))}
+                                     xAxis={xAxis}
+                                     yAxes={yAxes}
+                                     onAxisChange={handleAxisChange}
+                                     xType={xColumnType}
+                                     timeZone={timeZone}
+                                     onTimeZoneChange={handleTimeZoneChange}
+                                 />
+                             )}
+                             {!showsComplexPlane && (
+                                 <ReferenceLinesPanel
+                                     lines={referenceLines}
+                                     onAdd={(line) => setReferenceLines(prev => [...prev, line])}
+                                     onRemove={(id) => setReferenceLines(prev => prev.filter(line => line.id !== id))}
+                                     xType={xColumnType}
+                                 />
+                             )}
+                             <button onClick={() => setIsExportDialogOpen(true)} className="action-button btn-primary w-full">
                                 <DownloadIcon />
-                                Download Plot (PNG)
+                                Export...
+                             </button>
+                             <button onClick={handleSaveProject} className="action-button btn-secondary w-full">
+                                <SaveIcon />
+                                Save Project
                              </button>
+                             <div className="flex items-center gap-3">
+                                <button onClick={handleCopyShareLink} className="action-button btn-secondary flex-1">
+                                   <LinkIcon />
+                                   Copy Link
+                                </button>
+                                <label className="flex items-center text-xs text-gray-700 flex-shrink-0" title="Embeds the data in the link, for small files">
+                                   <input type="checkbox" checked={shareIncludesData} onChange={(e) => setShareIncludesData(e.target.checked)} className="h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                                   <span className="ml-1">Include data</span>
+                                </label>
+                             </div>
+                             {shareMessage && <p className="text-xs text-gray-500">{shareMessage}</p>}
                         </div>
                      </div>
                 )}
@@ -498,26 +1815,93 @@ const App: React.FC = () => {
             >
                 <div className={`w-full h-full rounded-2xl bg-white border-2 border-dashed flex items-center justify-center transition-colors duration-300 ${isDragOver ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300'}`}>
                     {isLoading ? (
-                        <div className="text-center text-gray-500">
+                        <div className="text-center text-gray-500 w-full max-w-md px-6">
                             <svg className="animate-spin h-8 w-8 text-indigo-500 mx-auto" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                             </svg>
-                            <p className="mt-4 font-medium">Parsing files...</p>
+                            <p className="mt-4 font-medium">Parsing {loadingFileNames.length} file{loadingFileNames.length > 1 ? 's' : ''}...</p>
+                            <ul className="mt-4 space-y-3 text-left">
+                                {loadingFileNames.map(fileName => (
+                                    <li key={fileName} className="text-sm">
+                                        <div className="flex items-center justify-between mb-1">
+                                            <span className="truncate text-gray-700 font-medium" title={fileName}>{fileName}</span>
+                                            <span className="ml-2 flex-shrink-0 text-gray-500">{Math.round(loadProgress[fileName] * 100)}%</span>
+                                            <button type="button" onClick={() => handleCancelLoad(fileName)} className="ml-3 flex-shrink-0 text-xs font-medium text-indigo-600 hover:underline">
+                                                Cancel
+                                            </button>
+                                        </div>
+                                        <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+                                            <div className="h-full bg-indigo-500 transition-all duration-200" style={{ width: `${loadProgress[fileName] * 100}%` }}></div>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                            {loadingFileNames.length > 1 && (
+                                <button type="button" onClick={() => handleCancelLoad()} className="action-button btn-secondary mt-4 text-sm">
+                                    Cancel All
+                                </button>
+                            )}
                         </div>
                     ) : tracesToPlot.length > 0 ? (
                         <div className="w-full h-full p-4 fade-in">
-                            <Plot ref={plotRef} data={tracesToPlot} layout={plotLayout} config={plotConfig} />
+                            <Plot ref={plotRef} data={plotData} layout={plotLayout} config={plotConfig} onRelayout={handleRelayout} onClick={handlePlotClick} onLegendClick={handleLegendClick} onRender={setRenderTime} />
+                            {renderTime !== null && (isBenchmarkMode() || renderTime > RENDER_TIME_TARGET) && (
+                                <p className={`mt-2 text-xs text-right ${renderTime > RENDER_TIME_TARGET ? 'text-amber-700' : 'text-gray-500'}`}>
+                                    Plot drawn in {Math.round(renderTime)} ms with {plotData.length} traces (target {RENDER_TIME_TARGET} ms)
+                                </p>
+                            )}
                         </div>
                     ) : (
                         <div className="text-center text-gray-500 px-6">
                             <DragDropIcon />
                             <h3 className="mt-4 text-xl font-medium text-gray-800">No data to display</h3>
-                            <p className="mt-1">Drag & drop CSV files here, or use the 'Upload' button to get started.</p>
+                            <p className="mt-1">Drag & drop CSV or Touchstone (.sNp) files or a saved project here, or use the 'Upload' button to get started.</p>
                         </div>
                     )}
                 </div>
             </main>
+
+            {pendingCollision && (
+                <NameCollisionDialog
+                    names={pendingCollision.names}
+                    onConfirm={handleResolveCollisions}
+                    onCancel={() => setPendingCollision(null)}
+                />
+            )}
+
+            {openReport && (
+                <ImportReportDialog
+                    fileName={openReport.fileName}
+                    report={openReport.report}
+                    onClose={() => setOpenReport(null)}
+                />
+            )}
+
+            {pendingImport && (
+                <ImportPreviewDialog
+                    imports={pendingImport.csv}
+                    onConfirm={handleConfirmImport}
+                    onCancel={() => setPendingImport(null)}
+                />
+            )}
+
+            {dataSourceDialog && (
+                <DataSourceDialog
+                    source={dataSourceDialog}
+                    onClose={() => setDataSourceDialog(null)}
+                    onPaste={handlePasteData}
+                    onOpenUrl={handleOpenUrl}
+                />
+            )}
+
+            {isExportDialogOpen && (
+                <ExportDialog
+                    onClose={() => setIsExportDialogOpen(false)}
+                    onExportImage={handleDownloadPlot}
+                    onExportData={handleExportData}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { PlotHighlight, PlotNote, XColumnType, YAxisId } from '../types';
+import { parseXInput } from '../utils/datetime';
+import { Y_AXIS_LABELS } from './AxesPanel';
+import { formatValue } from './MarkerPanel';
+
+// The text, look and arrow of the next note, whether it is added from the form or by clicking on the plot
+export type NoteDraft = Pick<PlotNote, 'text' | 'color' | 'showArrow'>;
+
+interface AnnotationsPanelProps {
+    notes: PlotNote[];
+    highlights: PlotHighlight[];
+    draft: NoteDraft;
+    onDraftChange: (draft: NoteDraft) => void;
+    clickToPlace: boolean;
+    onClickToPlaceChange: (enabled: boolean) => void;
+    editOnPlot: boolean;
+    onEditOnPlotChange: (enabled: boolean) => void;
+    onAddNote: (note: PlotNote) => void;
+    onNoteChange: (id: string, changes: Partial<PlotNote>) => void;
+    onRemoveNote: (id: string) => void;
+    onAddHighlight: (highlight: PlotHighlight) => void;
+    onHighlightChange: (id: string, changes: Partial<PlotHighlight>) => void;
+    onRemoveHighlight: (id: string) => void;
+    onClear: () => void;
+    // Format X positions, e.g. as dates on a datetime axis
+    formatX?: (value: number) => string;
+    // How the X values are read; datetime axes get date inputs for note positions and highlighted ranges
+    xType: XColumnType;
+}
+
+/**
+ * Sidebar section for adding, editing and removing text notes and highlighted X ranges.
+ */
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({
+    notes, highlights, draft, onDraftChange, clickToPlace, onClickToPlaceChange, editOnPlot, onEditOnPlotChange,
+    onAddNote, onNoteChange, onRemoveNote, onAddHighlight, onHighlightChange, onRemoveHighlight, onClear, formatX = formatValue, xType
+}) => {
+    const [noteX, setNoteX] = useState('');
+    const [noteY, setNoteY] = useState('');
+    const [yAxis, setYAxis] = useState<YAxisId>('y');
+    const [start, setStart] = useState('');
+    const [end, setEnd] = useState('');
+    const [label, setLabel] = useState('');
+    const [highlightColor, setHighlightColor] = useState('#facc15');
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white';
+    const buttonClassName = 'w-full px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50';
+    const isDate = xType === 'datetime';
+    const parseNumber = (text: string) => (text.trim() === '' ? NaN : Number(text));
+    const parseX = (text: string) => parseXInput(text, xType);
+    const isNoteValid = draft.text.trim() !== '' && Number.isFinite(parseX(noteX)) && Number.isFinite(parseNumber(noteY));
+    const isHighlightValid = Number.isFinite(parseX(start)) && Number.isFinite(parseX(end)) && parseX(start) !== parseX(end);
+
+    const handleAddNote = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isNoteValid) return;
+        onAddNote({ id: `note-${Date.now()}`, ...draft, text: draft.text.trim(), x: parseX(noteX), y: parseNumber(noteY), yAxis, ax: 0, ay: -40 });
+        setNoteX('');
+        setNoteY('');
+    };
+
+    const handleAddHighlight = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isHighlightValid) return;
+        const bounds = [parseX(start), parseX(end)].sort((a, b) => a - b);
+        onAddHighlight({ id: `highlight-${Date.now()}`, start: bounds[0], end: bounds[1], label: label.trim(), color: highlightColor });
+        setStart('');
+        setEnd('');
+        setLabel('');
+    };
+
+    return (
+        <div className="space-y-3 pt-2">
+            <form onSubmit={handleAddNote} className="space-y-1.5">
+                <span className="block text-sm font-medium text-gray-600">Notes</span>
+                <div className="flex items-center gap-2">
+                    <input type="text" value={draft.text} onChange={(e) => onDraftChange({ ...draft, text: e.target.value })} placeholder="Text, e.g. Resonance shift after rework" className={inputClassName} aria-label="Note text" />
+                    <input type="color" value={draft.color} onChange={(e) => onDraftChange({ ...draft, color: e.target.value })} className="h-8 w-8 p-0 border-0 bg-transparent cursor-pointer flex-shrink-0" aria-label="Note color" />
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={draft.showArrow} onChange={(e) => onDraftChange({ ...draft, showArrow: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                    <span className="ml-2">With an arrow</span>
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={clickToPlace} onChange={(e) => onClickToPlaceChange(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                    <span className="ml-2">Click on the plot to place notes</span>
+                </label>
+                <div className="flex items-center gap-2">
+                    <input type={isDate ? 'datetime-local' : 'number'} step={isDate ? 1 : undefined} value={noteX} onChange={(e) => setNoteX(e.target.value)} placeholder="X" className={inputClassName} aria-label="Note X" />
+                    <input type="number" value={noteY} onChange={(e) => setNoteY(e.target.value)} placeholder="Y" className={inputClassName} aria-label="Note Y" />
+                    <select value={yAxis} onChange={(e) => setYAxis(e.target.value as YAxisId)} className="p-1.5 border border-gray-300 rounded-md text-sm bg-white" aria-label="Note Y axis">
+                        {(Object.keys(Y_AXIS_LABELS) as YAxisId[]).map(axis => <option key={axis} value={axis}>{axis.toUpperCase()}</option>)}
+                    </select>
+                </div>
+                <button type="submit" disabled={!isNoteValid} className={buttonClassName}>Add Note</button>
+            </form>
+
+            <form onSubmit={handleAddHighlight} className="space-y-1.5">
+                <span className="block text-sm font-medium text-gray-600">Highlighted Ranges</span>
+                <div className="flex items-center gap-2">
+                    <input type={isDate ? 'datetime-local' : 'number'} step={isDate ? 1 : undefined} value={start} onChange={(e) => setStart(e.target.value)} placeholder="From X" className={inputClassName} aria-label="Highlight start" />
+                    <input type={isDate ? 'datetime-local' : 'number'} step={isDate ? 1 : undefined} value={end} onChange={(e) => setEnd(e.target.value)} placeholder="To X" className={inputClassName} aria-label="Highlight end" />
+                </div>
+                <div className="flex items-center gap-2">
+                    <input type="text" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label (optional)" className={inputClassName} aria-label="Highlight label" />
+                    <input type="color" value={highlightColor} onChange={(e) => setHighlightColor(e.target.value)} className="h-8 w-8 p-0 border-0 bg-transparent cursor-pointer flex-shrink-0" aria-label="Highlight color" />
+                </div>
+                <button type="submit" disabled={!isHighlightValid} className={buttonClassName}>Add Highlight</button>
+            </form>
+
+            {(notes.length > 0 || highlights.length > 0) && (
+                <div className="space-y-1.5">
+                    <label className="flex items-center text-sm text-gray-700">
+                        <input type="checkbox" checked={editOnPlot} onChange={(e) => onEditOnPlotChange(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                        <span className="ml-2">Drag and edit on the plot</span>
+                    </label>
+                    <ul className="space-y-1">
+                        {notes.map(note => (
+                            <li key={note.id} className="flex items-center gap-2 text-xs text-gray-700">
+                                <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: note.color }} />
+                                <input
+                                    // Remounted when the text is edited on the plot
+                                    key={note.text}
+                                    type="text"
+                                    defaultValue={note.text}
+                                    onBlur={(e) => { if (e.target.value.trim() && e.target.value !== note.text) onNoteChange(note.id, { text: e.target.value.trim() }); }}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                    className="flex-1 min-w-0 p-1 border border-gray-300 rounded-md text-xs focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                                    aria-label="Note text"
+                                    title={`At X = ${formatX(note.x)}, Y = ${formatValue(note.y)}`}
+                                />
+                                <button type="button" onClick={() => onRemoveNote(note.id)} className="text-gray-500 hover:text-red-600" aria-label={`Remove note ${note.text}`}>✕</button>
+                            </li>
+                        ))}
+                        {highlights.map(highlight => (
+                            <li key={highlight.id} className="flex items-center gap-2 text-xs text-gray-700">
+                                <span className="h-3 w-3 rounded-sm flex-shrink-0" style={{ backgroundColor: highlight.color }} />
+                                <span className="flex-shrink-0">{formatX(highlight.start)} … {formatX(highlight.end)}</span>
+                                <input
+                                    type="text"
+                                    value={highlight.label}
+                                    onChange={(e) => onHighlightChange(highlight.id, { label: e.target.value })}
+                                    placeholder="Label"
+                                    className="flex-1 min-w-0 p-1 border border-gray-300 rounded-md text-xs focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                                    aria-label="Highlight label"
+                                />
+                                <button type="button" onClick={() => onRemoveHighlight(highlight.id)} className="text-gray-500 hover:text-red-600" aria-label="Remove highlight">✕</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button type="button" onClick={onClear} className={buttonClassName}>Clear Annotations</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AnnotationsPanel;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { AxisSettings, PlotLayoutMode, TickFormat, XColumnType, YAxisId } from '../types';
+import { availableTimeZones, formatDateInput, parseDateInput, LOCAL_TIME_ZONE } from '../utils/datetime';
+
+type AxisKey = 'x' | YAxisId;
+
+interface AxesPanelProps {
+    layoutMode: PlotLayoutMode;
+    onLayoutModeChange: (mode: PlotLayoutMode) => void;
+    // The plotted traces, for assigning them to axes
+    traces: { key: string; label: string }[];
+    traceAxes: Record<string, YAxisId>;
+    onTraceAxisChange: (key: string, axis: YAxisId) => void;
+    xAxis: AxisSettings;
+    yAxes: Record<YAxisId, AxisSettings>;
+    onAxisChange: (axis: AxisKey, settings: AxisSettings) => void;
+    // How the X values are read. Dates get date inputs and a time zone, scale and tick format only apply to numbers.
+    xType: XColumnType;
+    timeZone: string;
+    onTimeZoneChange: (timeZone: string) => void;
+}
+
+export const Y_AXIS_LABELS: Record<YAxisId, string> = {
+    y: 'Y1 (left)',
+    y2: 'Y2 (right)',
+    y3: 'Y3 (outer left)',
+};
+
+const AXIS_LABELS: Record<AxisKey, string> = { x: 'X', ...Y_AXIS_LABELS };
+
+const TITLE_PLACEHOLDERS: Record<AxisKey, string> = {
+    x: 'e.g., Frequency (GHz)',
+    y: 'e.g., S-Parameter (dB)',
+    y2: 'e.g., Phase (deg)',
+    y3: 'e.g., Current (A)',
+};
+
+const LAYOUT_MODES: { value: PlotLayoutMode; label: string }[] = [
+    { value: 'overlay', label: 'Single panel' },
+    { value: 'stacked', label: 'Stacked panels (one per Y axis, shared X)' },
+    { value: 'grid', label: 'Grid (one panel per file)' },
+];
+
+const TICK_FORMATS: { value: TickFormat; label: string }[] = [
+    { value: 'auto', label: 'Auto ticks' },
+    { value: 'si', label: 'SI prefixes (1.5G)' },
+    { value: 'scientific', label: 'Scientific (1.5e+9)' },
+];
+
+const TIME_ZONES = availableTimeZones();
+
+/**
+ * Returns the range typed into the min and max inputs, or null unless both are valid.
+ * @param parse Reads one bound, returning NaN if it isn't valid.
+ */
+function rangeOf(bounds: [string, string], parse: (bound: string) => number): [number, number] | null {
+    const [min, max] = bounds.map(bound => (bound.trim() === '' ? NaN : parse(bound)));
+    return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : null;
+}
+
+/**
+ * Sidebar controls for the panel layout, the Y axis of each trace and the settings of each axis.
+ */
+const AxesPanel: React.FC<AxesPanelProps> = ({ layoutMode, onLayoutModeChange, traces, traceAxes, onTraceAxisChange, xAxis, yAxes, onAxisChange, xType, timeZone, onTimeZoneChange }) => {
+    // Per-file panels share the primary axis settings, so only Y1 is offered in grid mode
+    const usedAxes = layoutMode === 'grid'
+        ? (['y'] as YAxisId[])
+        : (['y', 'y2', 'y3'] as YAxisId[]).filter(axis => axis === 'y' || traces.some(trace => (traceAxes[trace.key] ?? 'y') === axis));
+    const settingsOf = (axis: AxisKey) => (axis === 'x' ? xAxis : yAxes[axis]);
+    const isDateAxis = (axis: AxisKey) => axis === 'x' && xType === 'datetime';
+    const parseBound = (axis: AxisKey) => (isDateAxis(axis) ? parseDateInput : Number);
+    const formatBound = (axis: AxisKey, value: number) => (isDateAxis(axis) ? formatDateInput(value) : String(value));
+
+    // The bounds as typed; a range is only applied once both bounds are valid
+    const [draftBounds, setDraftBounds] = useState<Partial<Record<AxisKey, [string, string]>>>({});
+    const boundsOf = (axis: AxisKey): [string, string] => {
+        const range = settingsOf(axis).range;
+        const draft = draftBounds[axis];
+        // A draft is dropped once the range changes elsewhere, e.g. when a project is opened
+        if (draft && rangeOf(draft, parseBound(axis))?.join() === range?.join()) return draft;
+        return range ? [formatBound(axis, range[0]), formatBound(axis, range[1])] : ['', ''];
+    };
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white';
+    const checkboxClassName = 'h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500';
+
+    const setBound = (axis: AxisKey, index: 0 | 1, value: string) => {
+        const bounds: [string, string] = [...boundsOf(axis)];
+        bounds[index] = value;
+        setDraftBounds(prev => ({ ...prev, [axis]: bounds }));
+        onAxisChange(axis, { ...settingsOf(axis), range: rangeOf(bounds, parseBound(axis)) });
+    };
+
+    const renderAxis = (axis: AxisKey) => {
+        const settings = settingsOf(axis);
+        const label = AXIS_LABELS[axis];
+        const update = (changes: Partial<AxisSettings>) => onAxisChange(axis, { ...settings, ...changes });
+        return (
+            <fieldset key={axis} className="space-y-1.5">
+                <legend className="block text-sm font-medium text-gray-600 mb-1">{label} Axis</legend>
+                <input
+                    type="text"
+                    id={axis === 'x' || axis === 'y' ? `${axis}-axis-title` : undefined}
+                    value={settings.title}
+                    onChange={(e) => update({ title: e.target.value })}
+                    placeholder={TITLE_PLACEHOLDERS[axis]}
+                    className={inputClassName}
+                    aria-label={`${label} axis title`}
+                />
+                <div className="flex items-center gap-2">
+                    <input type={isDateAxis(axis) ? 'datetime-local' : 'number'} step={isDateAxis(axis) ? 1 : undefined} value={boundsOf(axis)[0]} onChange={(e) => setBound(axis, 0, e.target.value)} placeholder="Min (auto)" className={inputClassName} aria-label={`${label} axis minimum`} />
+                    <input type={isDateAxis(axis) ? 'datetime-local' : 'number'} step={isDateAxis(axis) ? 1 : undefined} value={boundsOf(axis)[1]} onChange={(e) => setBound(axis, 1, e.target.value)} placeholder="Max (auto)" className={inputClassName} aria-label={`${label} axis maximum`} />
+                </div>
+                <div className="flex items-center gap-2">
+                    {isDateAxis(axis) && (
+                        <select value={timeZone} onChange={(e) => onTimeZoneChange(e.target.value)} className={inputClassName} aria-label="Time zone">
+                            {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone === LOCAL_TIME_ZONE ? 'Local time zone' : zone}</option>)}
+                        </select>
+                    )}
+                    {(axis !== 'x' || xType === 'numeric') && (
+                        <>
+                            <select value={settings.tickFormat} onChange={(e) => update({ tickFormat: e.target.value as TickFormat })} className={inputClassName} aria-label={`${label} axis tick format`}>
+                                {TICK_FORMATS.map(format => <option key={format.value} value={format.value}>{format.label}</option>)}
+                            </select>
+                            <label className="flex items-center text-xs text-gray-700 flex-shrink-0">
+                                <input type="checkbox" checked={settings.type === 'log'} onChange={(e) => update({ type: e.target.checked ? 'log' : 'linear' })} className={checkboxClassName} />
+                                <span className="ml-1">Log</span>
+                            </label>
+                        </>
+                    )}
+                    <label className="flex items-center text-xs text-gray-700 flex-shrink-0">
+                        <input type="checkbox" checked={settings.reversed} onChange={(e) => update({ reversed: e.target.checked })} className={checkboxClassName} />
+                        <span className="ml-1">Reversed</span>
+                    </label>
+                </div>
+            </fieldset>
+        );
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label htmlFor="layout-mode" className="block text-sm font-medium text-gray-600 mb-1">Layout</label>
+                <select id="layout-mode" value={layoutMode} onChange={(e) => onLayoutModeChange(e.target.value as PlotLayoutMode)} className={inputClassName}>
+                    {LAYOUT_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+                </select>
+            </div>
+
+            {layoutMode !== 'grid' && traces.length > 1 && (
+                <div>
+                    <span className="block text-sm font-medium text-gray-600 mb-1">Trace Axes</span>
+                    <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md p-1.5 space-y-1">
+                        {traces.map(trace => (
+                            <div key={trace.key} className="flex items-center gap-2 text-sm">
+                                <span className="flex-1 min-w-0 truncate text-gray-700" title={trace.label}>{trace.label}</span>
+                                <select
+                                    value={traceAxes[trace.key] ?? 'y'}
+                                    onChange={(e) => onTraceAxisChange(trace.key, e.target.value as YAxisId)}
+                                    className="p-1 border border-gray-300 rounded-md text-xs bg-white"
+                                    aria-label={`Y axis of ${trace.label}`}
+                                >
+                                    {(Object.keys(Y_AXIS_LABELS) as YAxisId[]).map(axis => <option key={axis} value={axis}>{axis.toUpperCase()}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {renderAxis('x')}
+            {usedAxes.map(renderAxis)}
+        </div>
+    );
+};
+
+export default AxesPanel;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ColumnMapping, XColumnType } from '../types';
+import { DATE_FORMAT_PRESETS, ISO_FORMAT } from '../utils/datetime';
+
+interface ColumnMappingPanelProps {
+    fileName: string;
+    headers: string[];
+    mapping: ColumnMapping;
+    onChange: (mapping: ColumnMapping) => void;
+    // False for sources with a fixed X column, such as the frequency of Touchstone files.
+    allowXChange?: boolean;
+    // The type and timestamp format detected from the values of the X column
+    detectedXFormat: { type: XColumnType; dateFormat?: string };
+}
+
+const X_TYPE_LABELS: Record<XColumnType, string> = {
+    numeric: 'Numeric',
+    datetime: 'Date/time',
+    categorical: 'Categories',
+};
+
+/**
+ * Returns the label of a timestamp format, spelling out the ISO 8601 format name.
+ */
+function dateFormatLabel(format: string): string {
+    return format === ISO_FORMAT ? 'ISO 8601' : format;
+}
+
+/**
+ * Lets the user pick which column of a file is used as X and which of the
+ * remaining columns are plotted as Y traces.
+ */
+const ColumnMappingPanel: React.FC<ColumnMappingPanelProps> = ({ fileName, headers, mapping, onChange, allowXChange = true, detectedXFormat }) => {
+    const yCandidates = headers.filter(header => header !== mapping.x);
+    const xType = mapping.xType ?? detectedXFormat.type;
+    // The format as typed; it is applied on blur or Enter, as every change re-reads the whole column
+    const [draftDateFormat, setDraftDateFormat] = useState<string | null>(null);
+
+    const commitDateFormat = () => {
+        if (draftDateFormat === null) return;
+        const format = draftDateFormat.trim() === 'ISO 8601' ? ISO_FORMAT : draftDateFormat.trim();
+        setDraftDateFormat(null);
+        onChange({ ...mapping, dateFormat: format || undefined });
+    };
+
+    const handleXChange = (xHeader: string) => {
+        // The new X column can no longer be a Y trace; the old X column is left unchecked.
+        onChange({ x: xHeader, y: mapping.y.filter(header => header !== xHeader) });
+    };
+
+    const handleYToggle = (yHeader: string) => {
+        const isChecked = mapping.y.includes(yHeader);
+        const nextY = isChecked
+            ? mapping.y.filter(header => header !== yHeader)
+            : headers.filter(header => header === yHeader || mapping.y.includes(header)); // Keep column order
+        onChange({ ...mapping, y: nextY });
+    };
+
+    const setAllY = (checked: boolean) => {
+        onChange({ ...mapping, y: checked ? yCandidates : [] });
+    };
+
+    return (
+        <div className="mt-2.5 pl-8 space-y-2">
+            <div>
+                <label htmlFor={`x-column-${fileName}`} className="block text-xs font-medium text-gray-600 mb-1">X Column</label>
+                <select
+                    id={`x-column-${fileName}`}
+                    value={mapping.x}
+                    onChange={(e) => handleXChange(e.target.value)}
+                    disabled={!allowXChange}
+                    className="w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white disabled:bg-gray-100"
+                >
+                    {(allowXChange ? headers : [mapping.x]).map(header => (
+                        <option key={header} value={header}>{header}</option>
+                    ))}
+                </select>
+                {allowXChange && (
+                    <div className="flex items-center gap-2 mt-1.5">
+                        <select
+                            value={mapping.xType ?? ''}
+                            onChange={(e) => onChange({ ...mapping, xType: (e.target.value || undefined) as XColumnType | undefined })}
+                            className="flex-1 p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                            aria-label="X column type"
+                        >
+                            <option value="">Auto ({X_TYPE_LABELS[detectedXFormat.type]})</option>
+                            {(Object.keys(X_TYPE_LABELS) as XColumnType[]).map(type => <option key={type} value={type}>{X_TYPE_LABELS[type]}</option>)}
+                        </select>
+                        {xType === 'datetime' && (
+                            <>
+                                <input
+                                    type="text"
+                                    list={`date-formats-${fileName}`}
+                                    value={draftDateFormat ?? (mapping.dateFormat ? dateFormatLabel(mapping.dateFormat) : '')}
+                                    onChange={(e) => setDraftDateFormat(e.target.value)}
+                                    onBlur={commitDateFormat}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') commitDateFormat(); }}
+                                    placeholder={`Auto (${dateFormatLabel(detectedXFormat.dateFormat ?? ISO_FORMAT)})`}
+                                    title="Tokens: yyyy MM dd HH mm ss SSS"
+                                    className="flex-1 min-w-0 p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                                    aria-label="Timestamp format"
+                                />
+                                <datalist id={`date-formats-${fileName}`}>
+                                    {[ISO_FORMAT, ...DATE_FORMAT_PRESETS].map(format => <option key={format} value={dateFormatLabel(format)} />)}
+                                </datalist>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+            <div>
+                <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium text-gray-600">Y Columns ({mapping.y.length}/{yCandidates.length})</span>
+                    <span className="space-x-2 text-xs">
+                        <button type="button" onClick={() => setAllY(true)} className="text-indigo-600 hover:underline">All</button>
+                        <button type="button" onClick={() => setAllY(false)} className="text-indigo-600 hover:underline">None</button>
+                    </span>
+                </div>
+                <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md p-1.5 space-y-1">
+                    {yCandidates.map(header => (
+                        <label key={header} className="flex items-center text-sm text-gray-700 min-w-0" title={header}>
+                            <input
+                                type="checkbox"
+                                checked={mapping.y.includes(header)}
+                                onChange={() => handleYToggle(header)}
+                                className="h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            <span className="ml-2 truncate">{header}</span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ColumnMappingPanel;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { REFRESH_INTERVALS } from '../utils/dataSources';
+
+interface DataSourceDialogProps {
+    // 'paste' for a table from the clipboard, 'url' for a file on a server
+    source: 'paste' | 'url';
+    onClose: () => void;
+    onPaste: (text: string, name: string) => void;
+    onOpenUrl: (url: string, refreshSeconds: number) => void;
+}
+
+/**
+ * Modal dialog for importing a table pasted from a spreadsheet or a file opened by its URL.
+ */
+const DataSourceDialog: React.FC<DataSourceDialogProps> = ({ source, onClose, onPaste, onOpenUrl }) => {
+    const [text, setText] = useState('');
+    const [name, setName] = useState('');
+    const [url, setUrl] = useState('');
+    const [refreshSeconds, setRefreshSeconds] = useState(0);
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white mt-1';
+    const isUrlValid = /^https?:\/\//i.test(url.trim()) || url.trim().startsWith('/');
+    const isValid = source === 'paste' ? text.trim() !== '' : isUrlValid;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+        if (source === 'paste') {
+            const trimmedName = name.trim() || 'Pasted data';
+            onPaste(text, /\.(csv|s\dp)$/i.test(trimmedName) ? trimmedName : `${trimmedName}.csv`);
+        } else {
+            onOpenUrl(url.trim(), refreshSeconds);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 fade-in" onClick={onClose}>
+            <form role="dialog" aria-modal="true" aria-labelledby="source-dialog-title" onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 id="source-dialog-title" className="text-lg font-bold text-gray-800">{source === 'paste' ? 'Paste Data' : 'Open URL'}</h2>
+                    <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close">✕</button>
+                </div>
+
+                {source === 'paste' ? (
+                    <>
+                        <label className="block text-xs font-medium text-gray-600">
+                            Table with a header row, tab- or comma-separated
+                            <textarea
+                                value={text}
+                                onChange={(e) => setText(e.target.value)}
+                                rows={10}
+                                autoFocus
+                                placeholder={'Frequency\tS21\n1e9\t-0.5\n2e9\t-0.8'}
+                                className={`${inputClassName} font-mono text-xs`}
+                            />
+                        </label>
+                        <label className="block text-xs font-medium text-gray-600">
+                            Name
+                            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Pasted data" className={inputClassName} />
+                        </label>
+                    </>
+                ) : (
+                    <>
+                        <label className="block text-xs font-medium text-gray-600">
+                            URL of a CSV or Touchstone file
+                            <input type="text" inputMode="url" value={url} onChange={(e) => setUrl(e.target.value)} autoFocus placeholder="http://192.168.1.20/data/trace.csv" className={inputClassName} />
+                        </label>
+                        <label className="block text-xs font-medium text-gray-600">
+                            Auto-refresh
+                            <select value={refreshSeconds} onChange={(e) => setRefreshSeconds(Number(e.target.value))} className={inputClassName}>
+                                {REFRESH_INTERVALS.map(interval => <option key={interval.value} value={interval.value}>{interval.label}</option>)}
+                            </select>
+                        </label>
+                        <p className="text-xs text-gray-500">Servers on another host must allow cross-origin requests (CORS).</p>
+                    </>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onClose} className="action-button btn-secondary">Cancel</button>
+                    <button type="submit" disabled={!isValid} className="action-button btn-primary disabled:opacity-50">{source === 'paste' ? 'Import' : 'Open'}</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default DataSourceDialog;
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { DerivedOperation, DerivedTraceDefinition, SpectrumSettings, SpectrumWindow } from '../types';
+import { VARIABLE_NAMES } from '../utils/derived';
+import { DEFAULT_SPECTRUM } from '../utils/spectrum';
+
+interface DerivedTraceFormProps {
+    // Every trace that can be used as an input
+    availableTraces: { key: string; label: string }[];
+    existingNames: string[];
+    onAdd: (definition: DerivedTraceDefinition) => void;
+}
+
+const OPERATIONS: { value: DerivedOperation; label: string; inputs: number; parameter?: string }[] = [
+    { value: 'difference', label: 'Difference (A − B)', inputs: 2 },
+    { value: 'ratio', label: 'Ratio (A / B)', inputs: 2 },
+    { value: 'offset', label: 'Offset (A + k)', inputs: 1, parameter: 'Offset' },
+    { value: 'scale', label: 'Scale (A × k)', inputs: 1, parameter: 'Factor' },
+    { value: 'movingAverage', label: 'Moving Average', inputs: 1, parameter: 'Window (points)' },
+    { value: 'derivative', label: 'Derivative (dA/dx)', inputs: 1 },
+    { value: 'expression', label: 'Expression', inputs: 0 },
+    { value: 'spectrum', label: 'Spectrum (FFT / PSD)', inputs: 1 },
+];
+
+const WINDOWS: { value: SpectrumWindow; label: string }[] = [
+    { value: 'hann', label: 'Hann window' },
+    { value: 'hamming', label: 'Hamming window' },
+    { value: 'blackman', label: 'Blackman window' },
+    { value: 'rectangular', label: 'Rectangular window' },
+];
+
+/**
+ * Describes the default name of a derived trace, e.g. `S21 (a.csv) − S21 (b.csv)`.
+ */
+function defaultName(operation: DerivedOperation, labels: string[], parameter: number, expression: string, spectrum: SpectrumSettings): string {
+    const [a, b] = labels;
+    switch (operation) {
+        case 'difference': return `${a} − ${b}`;
+        case 'ratio': return `${a} / ${b}`;
+        case 'offset': return `${a} + ${parameter}`;
+        case 'scale': return `${a} × ${parameter}`;
+        case 'movingAverage': return `${a} (avg ${parameter})`;
+        case 'derivative': return `d/dx ${a}`;
+        case 'expression': return expression;
+        case 'spectrum': return `${spectrum.output === 'psd' ? 'PSD' : 'Spectrum'} of ${a}`;
+    }
+}
+
+/**
+ * Form for defining a new trace computed from existing ones.
+ */
+const DerivedTraceForm: React.FC<DerivedTraceFormProps> = ({ availableTraces, existingNames, onAdd }) => {
+    const [operation, setOperation] = useState<DerivedOperation>('difference');
+    const [inputs, setInputs] = useState<string[]>([]);
+    const [parameter, setParameter] = useState('');
+    const [expression, setExpression] = useState('');
+    const [name, setName] = useState('');
+    const [spectrum, setSpectrum] = useState<SpectrumSettings>(DEFAULT_SPECTRUM);
+    const [averages, setAverages] = useState(String(DEFAULT_SPECTRUM.averages));
+
+    const operationInfo = OPERATIONS.find(op => op.value === operation)!;
+    const inputCount = operation === 'expression' ? Math.max(inputs.length, 1) : operationInfo.inputs;
+    const selectedInputs = Array.from({ length: inputCount }, (_, i) => inputs[i] ?? availableTraces[0]?.key ?? '');
+    const parameterValue = parameter === '' ? (operation === 'movingAverage' ? 5 : operation === 'scale' ? 1 : 0) : Number(parameter);
+    const labels = selectedInputs.map(key => availableTraces.find(trace => trace.key === key)?.label ?? key);
+    const averageCount = Number(averages);
+    const resolvedName = name.trim() || defaultName(operation, labels, parameterValue, expression.trim(), spectrum);
+    const nameTaken = existingNames.includes(resolvedName);
+    const canAdd = availableTraces.length > 0 && resolvedName !== '' && !nameTaken
+        && (operation !== 'expression' || expression.trim() !== '')
+        && Number.isFinite(parameterValue)
+        && (operation !== 'spectrum' || (Number.isInteger(averageCount) && averageCount >= 1));
+
+    const setInput = (index: number, key: string) => {
+        const next = [...selectedInputs];
+        next[index] = key;
+        setInputs(next);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canAdd) return;
+        onAdd({
+            id: `derived-${Date.now()}`,
+            name: resolvedName,
+            operation,
+            inputs: selectedInputs,
+            ...(operationInfo.parameter ? { parameter: parameterValue } : {}),
+            ...(operation === 'expression' ? { expression: expression.trim() } : {}),
+            ...(operation === 'spectrum' ? { spectrum: { ...spectrum, averages: averageCount } } : {}),
+        });
+        setName('');
+        setExpression('');
+    };
+
+    const selectClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white';
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-2">
+            <select value={operation} onChange={(e) => setOperation(e.target.value as DerivedOperation)} className={selectClassName} aria-label="Operation">
+                {OPERATIONS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+            </select>
+            {selectedInputs.map((key, index) => (
+                <div key={index} className="flex items-center gap-2">
+                    <span className="w-4 text-xs font-bold text-gray-600">{VARIABLE_NAMES[index]}</span>
+                    <select value={key} onChange={(e) => setInput(index, e.target.value)} className={selectClassName} aria-label={`Input ${VARIABLE_NAMES[index]}`}>
+                        {availableTraces.map(trace => <option key={trace.key} value={trace.key}>{trace.label}</option>)}
+                    </select>
+                    {operation === 'expression' && index > 0 && index === selectedInputs.length - 1 && (
+                        <button type="button" onClick={() => setInputs(selectedInputs.slice(0, -1))} className="text-xs text-gray-500 hover:text-red-600" aria-label="Remove input">✕</button>
+                    )}
+                </div>
+            ))}
+            {operation === 'expression' && (
+                <>
+                    {selectedInputs.length < VARIABLE_NAMES.length && (
+                        <button type="button" onClick={() => setInputs([...selectedInputs, availableTraces[0]?.key ?? ''])} className="text-xs font-medium text-indigo-600 hover:underline">
+                            + Add input
+                        </button>
+                    )}
+                    <input
+                        type="text"
+                        value={expression}
+                        onChange={(e) => setExpression(e.target.value)}
+                        placeholder="e.g., (A - B) / B * 100"
+                        className="w-full p-1.5 border border-gray-300 rounded-md text-sm font-mono focus:ring-indigo-500 focus:border-indigo-500"
+                        aria-label="Expression"
+                    />
+                </>
+            )}
+            {operation === 'spectrum' && (
+                <>
+                    <div className="grid grid-cols-2 gap-2">
+                        <select value={spectrum.output} onChange={(e) => setSpectrum(prev => ({ ...prev, output: e.target.value as SpectrumSettings['output'] }))} className={selectClassName} aria-label="Spectrum output">
+                            <option value="magnitude">Magnitude</option>
+                            <option value="psd">Power density (PSD)</option>
+                        </select>
+                        <select value={spectrum.scale} onChange={(e) => setSpectrum(prev => ({ ...prev, scale: e.target.value as SpectrumSettings['scale'] }))} className={selectClassName} aria-label="Spectrum scale">
+                            <option value="db">dB</option>
+                            <option value="linear">Linear</option>
+                        </select>
+                        <select value={spectrum.window} onChange={(e) => setSpectrum(prev => ({ ...prev, window: e.target.value as SpectrumWindow }))} className={selectClassName} aria-label="Window">
+                            {WINDOWS.map(window => <option key={window.value} value={window.value}>{window.label}</option>)}
+                        </select>
+                        <label className="flex items-center gap-2 text-xs text-gray-600" title="Averages the spectra of half-overlapping segments, for a smoother estimate at a coarser resolution">
+                            Averages
+                            <input
+                                type="number"
+                                min={1}
+                                step={1}
+                                value={averages}
+                                onChange={(e) => setAverages(e.target.value)}
+                                className="w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                        </label>
+                    </div>
+                    <p className="text-xs text-gray-500">Unevenly spaced samples are resampled first. Frequencies are in cycles per X unit, i.e. Hz for X in seconds.</p>
+                </>
+            )}
+            {operationInfo.parameter && (
+                <input
+                    type="number"
+                    value={parameter}
+                    onChange={(e) => setParameter(e.target.value)}
+                    placeholder={`${operationInfo.parameter} (default ${parameterValue})`}
+                    className="w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                    aria-label={operationInfo.parameter}
+                />
+            )}
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={resolvedName || 'Name'}
+                className="w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                aria-label="Derived trace name"
+            />
+            {nameTaken && <p className="text-xs text-red-600">An entry named "{resolvedName}" already exists.</p>}
+            <button type="submit" disabled={!canAdd} className="action-button btn-secondary w-full text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+                Add Derived Trace
+            </button>
+        </form>
+    );
+};
+
+export default DerivedTraceForm;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { DataExportOptions, ImageExportOptions, ImageFormat } from '../utils/export';
+
+interface ExportDialogProps {
+    onClose: () => void;
+    onExportImage: (options: ImageExportOptions) => void;
+    onExportData: (options: DataExportOptions) => void;
+}
+
+const IMAGE_FORMATS: { value: ImageFormat; label: string }[] = [
+    { value: 'png', label: 'PNG' },
+    { value: 'svg', label: 'SVG (vector)' },
+    { value: 'pdf', label: 'PDF (print dialog)' },
+    { value: 'jpeg', label: 'JPEG' },
+];
+
+const PRESETS: { name: string; options: Omit<ImageExportOptions, 'format'> }[] = [
+    { name: 'Screen', options: { width: 1200, height: 800, scale: 1, publication: false } },
+    { name: 'High-DPI', options: { width: 1200, height: 800, scale: 3, publication: false } },
+    { name: 'Publication', options: { width: 1000, height: 700, scale: 4, publication: true } },
+];
+
+/**
+ * Modal dialog with the image and data export options.
+ */
+const ExportDialog: React.FC<ExportDialogProps> = ({ onClose, onExportImage, onExportData }) => {
+    const [imageOptions, setImageOptions] = useState<ImageExportOptions>({ format: 'png', ...PRESETS[0].options });
+    const [dataLayout, setDataLayout] = useState<DataExportOptions['layout']>('merged');
+
+    const isRaster = imageOptions.format === 'png' || imageOptions.format === 'jpeg';
+    const setOption = <K extends keyof ImageExportOptions>(key: K, value: ImageExportOptions[K]) => {
+        setImageOptions(prev => ({ ...prev, [key]: value }));
+    };
+    const setNumberOption = (key: 'width' | 'height' | 'scale', value: string) => {
+        const number = Number(value);
+        if (Number.isFinite(number) && number > 0) {
+            setOption(key, number);
+        }
+    };
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 fade-in" onClick={onClose}>
+            <div role="dialog" aria-modal="true" aria-labelledby="export-dialog-title" className="bg-white rounded-xl shadow-xl w-full max-w-md p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 id="export-dialog-title" className="text-lg font-bold text-gray-800">Export</h2>
+                    <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close">✕</button>
+                </div>
+
+                <section className="space-y-3">
+                    <h3 className="text-sm font-bold text-gray-700">Figure</h3>
+                    <div className="flex gap-2">
+                        {PRESETS.map(preset => (
+                            <button
+                                key={preset.name}
+                                type="button"
+                                onClick={() => setImageOptions(prev => ({ ...prev, ...preset.options }))}
+                                className="flex-1 px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100"
+                            >
+                                {preset.name}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="text-xs font-medium text-gray-600">
+                            Format
+                            <select value={imageOptions.format} onChange={(e) => setOption('format', e.target.value as ImageFormat)} className={`${inputClassName} mt-1`}>
+                                {IMAGE_FORMATS.map(format => <option key={format.value} value={format.value}>{format.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-xs font-medium text-gray-600">
+                            Scale {!isRaster && '(raster only)'}
+                            <input type="number" min={1} max={8} step={0.5} value={imageOptions.scale} disabled={!isRaster} onChange={(e) => setNumberOption('scale', e.target.value)} className={`${inputClassName} mt-1 disabled:bg-gray-100`} />
+                        </label>
+                        <label className="text-xs font-medium text-gray-600">
+                            Width (px)
+                            <input type="number" min={100} value={imageOptions.width} onChange={(e) => setNumberOption('width', e.target.value)} className={`${inputClassName} mt-1`} />
+                        </label>
+                        <label className="text-xs font-medium text-gray-600">
+                            Height (px)
+                            <input type="number" min={100} value={imageOptions.height} onChange={(e) => setNumberOption('height', e.target.value)} className={`${inputClassName} mt-1`} />
+                        </label>
+                    </div>
+                    <label className="flex items-center text-sm text-gray-700">
+                        <input type="checkbox" checked={imageOptions.publication} onChange={(e) => setOption('publication', e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                        <span className="ml-2">Larger fonts for publication</span>
+                    </label>
+                    {isRaster && (
+                        <p className="text-xs text-gray-500">Output: {Math.round(imageOptions.width * imageOptions.scale)} × {Math.round(imageOptions.height * imageOptions.scale)} px</p>
+                    )}
+                    <button type="button" onClick={() => onExportImage(imageOptions)} className="action-button btn-primary w-full">
+                        Export Figure
+                    </button>
+                </section>
+
+                <section className="space-y-3 pt-4 border-t">
+                    <h3 className="text-sm font-bold text-gray-700">Data (plotted traces as CSV)</h3>
+                    <div className="space-y-1 text-sm text-gray-700">
+                        <label className="flex items-center">
+                            <input type="radio" name="data-layout" checked={dataLayout === 'merged'} onChange={() => setDataLayout('merged')} className="text-indigo-600 focus:ring-indigo-500" />
+                            <span className="ml-2">One merged file</span>
+                        </label>
+                        <label className="flex items-center">
+                            <input type="radio" name="data-layout" checked={dataLayout === 'perTrace'} onChange={() => setDataLayout('perTrace')} className="text-indigo-600 focus:ring-indigo-500" />
+                            <span className="ml-2">One file per trace</span>
+                        </label>
+                    </div>
+                    <button type="button" onClick={() => onExportData({ layout: dataLayout })} className="action-button btn-secondary w-full">
+                        Export Data
+                    </button>
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default ExportDialog;
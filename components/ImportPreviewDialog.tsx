@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { CsvDialect } from '../types';
+import { DELIMITERS, previewRows } from '../utils/csvDialect';
+
+export interface PendingImport {
+    file: File;
+    sample: string;
+    isWholeFile: boolean;
+    dialect: CsvDialect;
+}
+
+interface ImportPreviewDialogProps {
+    imports: PendingImport[];
+    onConfirm: (dialects: CsvDialect[]) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_ROW_COUNT = 6;
+
+/**
+ * Shows the detected layout of each CSV file with a preview of its first rows,
+ * and lets the user correct the guess before the files are imported.
+ */
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ imports, onConfirm, onCancel }) => {
+    const [dialects, setDialects] = useState<CsvDialect[]>(imports.map(pending => pending.dialect));
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    const active = imports[activeIndex];
+    const dialect = dialects[activeIndex];
+    const preview = previewRows(active.sample, active.isWholeFile, dialect, PREVIEW_ROW_COUNT);
+
+    const updateDialect = (changes: Partial<CsvDialect>) => {
+        setDialects(prev => prev.map((item, index) => (index === activeIndex ? { ...item, ...changes } : item)));
+    };
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white mt-1';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 fade-in" onClick={onCancel}>
+            <div role="dialog" aria-modal="true" aria-labelledby="import-dialog-title" className="bg-white rounded-xl shadow-xl w-full max-w-3xl p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 id="import-dialog-title" className="text-lg font-bold text-gray-800">Import Preview</h2>
+                    <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-800" aria-label="Close">✕</button>
+                </div>
+
+                {imports.length > 1 && (
+                    <select value={activeIndex} onChange={(e) => setActiveIndex(Number(e.target.value))} className={inputClassName} aria-label="File">
+                        {imports.map((pending, index) => <option key={pending.file.name} value={index}>{pending.file.name}</option>)}
+                    </select>
+                )}
+
+                <div className="grid grid-cols-4 gap-3">
+                    <label className="text-xs font-medium text-gray-600">
+                        Delimiter
+                        <select value={dialect.delimiter} onChange={(e) => updateDialect({ delimiter: e.target.value })} className={inputClassName}>
+                            {DELIMITERS.map(delimiter => <option key={delimiter.value} value={delimiter.value}>{delimiter.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs font-medium text-gray-600">
+                        Decimal Separator
+                        <select value={dialect.decimal} onChange={(e) => updateDialect({ decimal: e.target.value as CsvDialect['decimal'] })} className={inputClassName}>
+                            <option value=".">Point (1.5)</option>
+                            <option value=",">Comma (1,5)</option>
+                        </select>
+                    </label>
+                    <label className="text-xs font-medium text-gray-600">
+                        Skip Lines
+                        <input type="number" min={0} value={dialect.skipLines} onChange={(e) => updateDialect({ skipLines: Math.max(0, Math.floor(Number(e.target.value) || 0)) })} className={inputClassName} />
+                    </label>
+                    <label className="text-xs font-medium text-gray-600 flex items-end pb-2">
+                        <input type="checkbox" checked={dialect.hasUnitsRow} onChange={(e) => updateDialect({ hasUnitsRow: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                        <span className="ml-2">Units row</span>
+                    </label>
+                </div>
+
+                <div className="overflow-auto max-h-64 border border-gray-200 rounded-md">
+                    <table className="min-w-full text-xs text-left">
+                        <thead className="bg-gray-50 sticky top-0">
+                            <tr>{preview.header.map((cell, i) => <th key={i} className="px-2 py-1 font-bold text-gray-700 whitespace-nowrap">{cell}</th>)}</tr>
+                            {preview.units && (
+                                <tr>{preview.header.map((_, i) => <th key={i} className="px-2 py-1 font-normal italic text-gray-500 whitespace-nowrap">{preview.units![i]}</th>)}</tr>
+                            )}
+                        </thead>
+                        <tbody>
+                            {preview.rows.map((row, rowIndex) => (
+                                <tr key={rowIndex} className="border-t border-gray-100">
+                                    {preview.header.map((_, i) => <td key={i} className="px-2 py-1 text-gray-800 whitespace-nowrap">{row[i]}</td>)}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {preview.header.length < 2 && (
+                    <p className="text-xs text-red-600">Only one column was found. Try a different delimiter or number of skipped lines.</p>
+                )}
+
+                <div className="flex justify-end gap-3">
+                    <button type="button" onClick={onCancel} className="action-button btn-secondary">Cancel</button>
+                    <button type="button" onClick={() => onConfirm(dialects)} className="action-button btn-primary">
+                        Import {imports.length > 1 ? `${imports.length} Files` : 'File'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportPreviewDialog;
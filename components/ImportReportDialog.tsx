@@ -0,0 +1,90 @@
+import React from 'react';
+import { ImportedColumn, ImportReport } from '../types';
+
+interface ImportReportDialogProps {
+    fileName: string;
+    report: ImportReport;
+    onClose: () => void;
+}
+
+const COLUMN_TYPE_LABELS: Record<ImportedColumn['type'], string> = {
+    numeric: 'Numbers',
+    datetime: 'Date/time',
+    categorical: 'Text',
+    empty: 'Empty',
+};
+
+/**
+ * Lists row numbers, noting how many more there are beyond those kept.
+ */
+function formatRows(rows: number[], count: number): string {
+    const listed = rows.join(', ');
+    return count > rows.length ? `${listed} and ${count - rows.length} more` : listed;
+}
+
+/**
+ * Modal dialog with what was found while importing a file: its rows and columns, cells that aren't numbers and parser errors.
+ */
+const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ fileName, report, onClose }) => (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 fade-in" onClick={onClose}>
+        <div role="dialog" aria-modal="true" aria-labelledby="report-dialog-title" className="bg-white rounded-xl shadow-xl w-full max-w-2xl p-6 space-y-4 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <h2 id="report-dialog-title" className="text-lg font-bold text-gray-800 truncate" title={fileName}>Import Report: {fileName}</h2>
+                <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close">✕</button>
+            </div>
+
+            {report.failure && (
+                <div className="p-3 bg-red-100 border border-red-300 text-red-700 rounded-lg text-sm">
+                    <strong>Not imported:</strong> {report.failure}
+                </div>
+            )}
+
+            <p className="text-sm text-gray-700">
+                {report.rowCount} data rows, {report.columns.length} columns. Row numbers count data rows, starting at 1 below the header.
+            </p>
+
+            {report.columns.length > 0 && (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs text-gray-500 border-b">
+                            <th className="py-1 pr-3 font-medium">Column</th>
+                            <th className="py-1 pr-3 font-medium">Type</th>
+                            <th className="py-1 font-medium">Cells that aren't numbers</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {report.columns.map(column => (
+                            <tr key={column.name} className="border-b border-gray-100 align-top">
+                                <td className="py-1 pr-3 text-gray-800 font-medium break-all">{column.name}</td>
+                                <td className="py-1 pr-3 text-gray-600 whitespace-nowrap">{COLUMN_TYPE_LABELS[column.type]}</td>
+                                <td className={`py-1 ${column.invalidCount > 0 ? 'text-amber-700' : 'text-gray-400'}`}>
+                                    {column.invalidCount > 0 ? `${column.invalidCount} in rows ${formatRows(column.invalidRows, column.invalidCount)}` : '—'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {report.errorCount > 0 && (
+                <div className="space-y-1">
+                    <h3 className="text-sm font-bold text-gray-700">Parser Errors ({report.errorCount})</h3>
+                    <ul className="text-xs text-gray-700 space-y-0.5 font-mono">
+                        {report.errors.map((error, index) => (
+                            <li key={index}>{error.row === null ? '' : `Row ${error.row}: `}{error.message}</li>
+                        ))}
+                        {report.errorCount > report.errors.length && (
+                            <li className="text-gray-500">and {report.errorCount - report.errors.length} more</li>
+                        )}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex justify-end">
+                <button type="button" onClick={onClose} className="action-button btn-secondary">Close</button>
+            </div>
+        </div>
+    </div>
+);
+
+export default ImportReportDialog;
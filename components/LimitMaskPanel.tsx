@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { LimitMask, XColumnType, YAxisId } from '../types';
+import { parseLimitPoints } from '../utils/limits';
+import { formatDateInput, parseXInput } from '../utils/datetime';
+import { Y_AXIS_LABELS } from './AxesPanel';
+
+interface LimitMaskPanelProps {
+    masks: LimitMask[];
+    onAdd: (mask: LimitMask) => void;
+    onRemove: (id: string) => void;
+    // How the X values are read; datetime axes get date inputs for the X of each point
+    xType: XColumnType;
+}
+
+const EMPTY_ROWS: [string, string][] = [['', ''], ['', '']];
+
+/**
+ * Sidebar section for defining limit masks, either point by point or from a two-column CSV file.
+ */
+const LimitMaskPanel: React.FC<LimitMaskPanelProps> = ({ masks, onAdd, onRemove, xType }) => {
+    const [name, setName] = useState('');
+    const [kind, setKind] = useState<LimitMask['kind']>('upper');
+    const [yAxis, setYAxis] = useState<YAxisId>('y');
+    const [rows, setRows] = useState<[string, string][]>(EMPTY_ROWS);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white';
+    const isDate = xType === 'datetime';
+    const points = rows
+        .filter(([x, y]) => x.trim() !== '' && y.trim() !== '')
+        .map(([x, y]) => ({ x: parseXInput(x, xType), y: Number(y) }));
+    const isValid = points.length >= 2 && points.every(point => Number.isFinite(point.x) && Number.isFinite(point.y));
+
+    const updateRow = (index: number, column: 0 | 1, value: string) => {
+        setRows(prev => prev.map((row, i) => (i === index ? (column === 0 ? [value, row[1]] : [row[0], value]) : row)));
+    };
+
+    const handleLoadCsv = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        file.text()
+            .then(content => {
+                setRows(parseLimitPoints(content).map(point => [isDate ? formatDateInput(point.x) : String(point.x), String(point.y)]));
+                if (!name) setName(file.name.replace(/\.csv$/i, ''));
+                setError(null);
+            })
+            .catch(err => setError(`Could not read ${file.name}: ${err.message}`));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+        onAdd({
+            id: `limit-${Date.now()}`,
+            name: name.trim() || `${kind === 'upper' ? 'Upper' : 'Lower'} limit ${masks.length + 1}`,
+            kind,
+            points: [...points].sort((a, b) => a.x - b.x),
+            yAxis,
+        });
+        setName('');
+        setRows(EMPTY_ROWS);
+        setError(null);
+    };
+
+    return (
+        <div className="space-y-3 pt-2">
+            {masks.length > 0 && (
+                <ul className="space-y-1">
+                    {masks.map(mask => (
+                        <li key={mask.id} className="flex items-center gap-2 text-xs text-gray-700">
+                            <span className="flex-1 min-w-0 truncate" title={mask.name}>
+                                <span className="font-medium">{mask.name}</span> ({mask.kind}, {mask.points.length} points, {mask.yAxis.toUpperCase()})
+                            </span>
+                            <button type="button" onClick={() => onRemove(mask.id)} className="text-gray-500 hover:text-red-600" aria-label={`Remove ${mask.name}`}>✕</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <form onSubmit={handleSubmit} className="space-y-1.5">
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Return loss spec" className={inputClassName} aria-label="Mask name" />
+                <div className="flex items-center gap-2">
+                    <select value={kind} onChange={(e) => setKind(e.target.value as LimitMask['kind'])} className={inputClassName} aria-label="Limit kind">
+                        <option value="upper">Upper limit (stay below)</option>
+                        <option value="lower">Lower limit (stay above)</option>
+                    </select>
+                    <select value={yAxis} onChange={(e) => setYAxis(e.target.value as YAxisId)} className="p-1.5 border border-gray-300 rounded-md text-sm bg-white" aria-label="Y axis">
+                        {(Object.keys(Y_AXIS_LABELS) as YAxisId[]).map(axis => <option key={axis} value={axis}>{axis.toUpperCase()}</option>)}
+                    </select>
+                </div>
+                <div className="max-h-40 overflow-y-auto space-y-1">
+                    {rows.map((row, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input type={isDate ? 'datetime-local' : 'number'} step={isDate ? 1 : undefined} value={row[0]} onChange={(e) => updateRow(index, 0, e.target.value)} placeholder="X" className={inputClassName} aria-label={`Point ${index + 1} X`} />
+                            <input type="number" value={row[1]} onChange={(e) => updateRow(index, 1, e.target.value)} placeholder="Y" className={inputClassName} aria-label={`Point ${index + 1} Y`} />
+                            <button type="button" onClick={() => setRows(prev => prev.filter((_, i) => i !== index))} disabled={rows.length <= 2} className="text-gray-500 hover:text-red-600 disabled:opacity-30" aria-label={`Remove point ${index + 1}`}>✕</button>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    <button type="button" onClick={() => setRows(prev => [...prev, ['', '']])} className="flex-1 px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100">Add Point</button>
+                    <button type="button" onClick={() => fileInputRef.current?.click()} className="flex-1 px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100">Load CSV...</button>
+                    <input type="file" ref={fileInputRef} onChange={handleLoadCsv} accept=".csv,.txt" className="hidden" />
+                </div>
+                {error && <p className="text-xs text-red-600">{error}</p>}
+                <button type="submit" disabled={!isValid} className="w-full action-button btn-secondary disabled:opacity-50">Add Mask</button>
+            </form>
+        </div>
+    );
+};
+
+export default LimitMaskPanel;
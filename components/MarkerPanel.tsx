@@ -0,0 +1,115 @@
+import React from 'react';
+import { MarkerReadout } from '../types';
+
+interface MarkerPanelProps {
+    traces: { key: string; label: string }[];
+    snapTraceKey: string;
+    onSnapTraceChange: (key: string) => void;
+    clickToPlace: boolean;
+    onClickToPlaceChange: (enabled: boolean) => void;
+    readouts: MarkerReadout[];
+    onAddSearchMarker: (search: 'peak' | 'min' | 'drop3dB') => void;
+    // Format X positions and X distances, e.g. as dates and durations on a datetime axis
+    formatX?: (value: number) => string;
+    formatDeltaX?: (value: number) => string;
+    onRemove: (id: string) => void;
+    onClear: () => void;
+}
+
+/**
+ * Formats a measured value with a sensible number of significant digits.
+ */
+export function formatValue(value: number): string {
+    if (!Number.isFinite(value)) return '—';
+    const magnitude = Math.abs(value);
+    return magnitude !== 0 && (magnitude >= 1e6 || magnitude < 1e-3) ? value.toExponential(4) : Number(value.toPrecision(6)).toString();
+}
+
+/**
+ * Sidebar section for placing markers and reading their values and deltas.
+ */
+const MarkerPanel: React.FC<MarkerPanelProps> = ({
+    traces, snapTraceKey, onSnapTraceChange, clickToPlace, onClickToPlaceChange, readouts, onAddSearchMarker, onRemove, onClear,
+    formatX = formatValue, formatDeltaX = formatValue
+}) => {
+    const deltas = readouts.slice(1).map((readout, i) => ({
+        label: `${readout.label} − ${readouts[i].label}`,
+        dx: readout.x - readouts[i].x,
+        dy: readout.y - readouts[i].y,
+    }));
+
+    return (
+        <div className="space-y-3 pt-2">
+            <div>
+                <label htmlFor="marker-trace" className="block text-sm font-medium text-gray-600 mb-1">Snap to Trace</label>
+                <select
+                    id="marker-trace"
+                    value={snapTraceKey}
+                    onChange={(e) => onSnapTraceChange(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                >
+                    <option value="">Clicked trace</option>
+                    {traces.map(trace => <option key={trace.key} value={trace.key}>{trace.label}</option>)}
+                </select>
+            </div>
+            <label className="flex items-center text-sm text-gray-700">
+                <input type="checkbox" checked={clickToPlace} onChange={(e) => onClickToPlaceChange(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                <span className="ml-2">Click on the plot to place markers</span>
+            </label>
+            <div className="flex gap-2">
+                <button type="button" disabled={!snapTraceKey} onClick={() => onAddSearchMarker('peak')} className="flex-1 px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50">Peak</button>
+                <button type="button" disabled={!snapTraceKey} onClick={() => onAddSearchMarker('min')} className="flex-1 px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50">Minimum</button>
+                <button type="button" disabled={!snapTraceKey} onClick={() => onAddSearchMarker('drop3dB')} className="flex-1 px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50">−3 dB points</button>
+            </div>
+
+            {readouts.length > 0 && (
+                <>
+                    <table className="w-full text-xs text-left">
+                        <thead className="text-gray-500">
+                            <tr><th className="py-1">Marker</th><th>X</th><th>Y</th><th></th></tr>
+                        </thead>
+                        <tbody>
+                            {readouts.map(readout => (
+                                <React.Fragment key={readout.id}>
+                                    <tr className="border-t border-gray-200 text-gray-800">
+                                        <td className="py-1 font-bold" title={readout.traceLabel}>{readout.label}</td>
+                                        <td>{formatX(readout.x)}</td>
+                                        <td>{formatValue(readout.y)}</td>
+                                        <td className="text-right">
+                                            <button type="button" onClick={() => onRemove(readout.id)} className="text-gray-400 hover:text-red-600" aria-label={`Remove ${readout.label}`}>✕</button>
+                                        </td>
+                                    </tr>
+                                    {readout.values.map(value => (
+                                        <tr key={value.traceLabel} className="text-gray-500">
+                                            <td colSpan={2} className="pl-3 truncate max-w-0" title={value.traceLabel}>{value.traceLabel}</td>
+                                            <td colSpan={2}>{formatValue(value.y)}</td>
+                                        </tr>
+                                    ))}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                    {deltas.length > 0 && (
+                        <table className="w-full text-xs text-left">
+                            <thead className="text-gray-500">
+                                <tr><th className="py-1">Delta</th><th>ΔX</th><th>ΔY</th></tr>
+                            </thead>
+                            <tbody>
+                                {deltas.map(delta => (
+                                    <tr key={delta.label} className="border-t border-gray-200 text-gray-800">
+                                        <td className="py-1 font-bold">{delta.label}</td>
+                                        <td>{formatDeltaX(delta.dx)}</td>
+                                        <td>{formatValue(delta.dy)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    <button type="button" onClick={onClear} className="text-xs font-medium text-indigo-600 hover:underline">Clear markers</button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MarkerPanel;
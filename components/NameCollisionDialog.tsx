@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+
+// What happens to an imported file whose name is already loaded
+export type CollisionChoice = 'replace' | 'keep' | 'skip';
+
+interface NameCollisionDialogProps {
+    // The names of the imported files that are already loaded
+    names: string[];
+    onConfirm: (choices: Record<string, CollisionChoice>) => void;
+    onCancel: () => void;
+}
+
+const CHOICES: { value: CollisionChoice; label: string }[] = [
+    { value: 'replace', label: 'Replace' },
+    { value: 'keep', label: 'Keep both' },
+    { value: 'skip', label: 'Skip' },
+];
+
+/**
+ * Asks whether imported files replace the loaded files of the same name, are added under a new name, or are skipped.
+ */
+const NameCollisionDialog: React.FC<NameCollisionDialogProps> = ({ names, onConfirm, onCancel }) => {
+    const [choices, setChoices] = useState<Record<string, CollisionChoice>>(() => Object.fromEntries(names.map(name => [name, 'replace'])));
+
+    const setAll = (choice: CollisionChoice) => setChoices(Object.fromEntries(names.map(name => [name, choice])));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 fade-in" onClick={onCancel}>
+            <div role="dialog" aria-modal="true" aria-labelledby="collision-dialog-title" className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 id="collision-dialog-title" className="text-lg font-bold text-gray-800">{names.length === 1 ? 'File Already Loaded' : 'Files Already Loaded'}</h2>
+                    <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-800" aria-label="Close">✕</button>
+                </div>
+                <p className="text-sm text-gray-600">
+                    Replacing a file keeps its place, style and column selection where its columns are unchanged.
+                    Keeping both adds the new file under a numbered name.
+                </p>
+
+                {names.length > 1 && (
+                    <div className="flex items-center gap-2 text-xs text-gray-600">
+                        <span>For all:</span>
+                        {CHOICES.map(choice => (
+                            <button key={choice.value} type="button" onClick={() => setAll(choice.value)} className="font-medium text-indigo-600 hover:underline">{choice.label}</button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="max-h-64 overflow-y-auto space-y-1.5">
+                    {names.map(name => (
+                        <div key={name} className="flex items-center gap-3 text-sm">
+                            <span className="flex-1 min-w-0 truncate text-gray-800 font-medium" title={name}>{name}</span>
+                            <select
+                                value={choices[name]}
+                                onChange={(e) => setChoices(prev => ({ ...prev, [name]: e.target.value as CollisionChoice }))}
+                                className="p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                                aria-label={`What to do with ${name}`}
+                            >
+                                {CHOICES.map(choice => <option key={choice.value} value={choice.value}>{choice.label}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onCancel} className="action-button btn-secondary">Cancel</button>
+                    <button type="button" onClick={() => onConfirm(choices)} className="action-button btn-primary">Import</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default NameCollisionDialog;
@@ -1,4 +1,4 @@
-import React, { useEffect, forwardRef } from 'react';
+import React, { useEffect, useRef, forwardRef } from 'react';
 
 // Declare Plotly to satisfy TypeScript since it's loaded from a CDN
 declare var Plotly: any;
@@ -7,27 +7,56 @@ interface PlotProps {
     data: any[];
     layout: any;
     config: any;
+    // Called with the Plotly relayout event, e.g. after the user zooms or pans.
+    onRelayout?: (event: Record<string, any>) => void;
+    // Called with the Plotly click event when the user clicks a data point.
+    onClick?: (event: { points: any[] }) => void;
+    // Called when a legend entry is clicked. Returning false cancels Plotly's own show/hide toggle.
+    onLegendClick?: (event: { curveNumber: number }) => boolean;
+    // Called after each redraw with the time it took in milliseconds.
+    onRender?: (milliseconds: number) => void;
 }
 
-const Plot = forwardRef<HTMLDivElement, PlotProps>(({ data, layout, config }, ref) => {
-    
+const Plot = forwardRef<HTMLDivElement, PlotProps>(({ data, layout, config, onRelayout, onClick, onLegendClick, onRender }, ref) => {
+    // Kept in refs so a new handler identity doesn't cause a full re-plot
+    const onRelayoutRef = useRef(onRelayout);
+    onRelayoutRef.current = onRelayout;
+    const onClickRef = useRef(onClick);
+    onClickRef.current = onClick;
+    const onLegendClickRef = useRef(onLegendClick);
+    onLegendClickRef.current = onLegendClick;
+    const onRenderRef = useRef(onRender);
+    onRenderRef.current = onRender;
+
+    // The element the listeners were attached to. Plotly.react keeps them, so each element gets them once.
+    const listenedElementRef = useRef<HTMLDivElement | null>(null);
+
     useEffect(() => {
         const currentRef = ref && (ref as React.RefObject<HTMLDivElement>).current;
         if (currentRef && data && data.length > 0) {
-            Plotly.newPlot(currentRef, data, layout, config).then(() => {
-                if(currentRef){
+            // Plotly.react only redraws what changed: data arrays are compared by identity, so traces
+            // that weren't rebuilt are skipped, and the layout's uirevision keeps the user's zoom and pan
+            const start = performance.now();
+            Plotly.react(currentRef, data, layout, config).then(() => {
+                onRenderRef.current?.(performance.now() - start);
+                if (currentRef && listenedElementRef.current !== currentRef) {
+                    listenedElementRef.current = currentRef;
                     currentRef.classList.add('fade-in');
+                    (currentRef as any).on('plotly_relayout', (event: Record<string, any>) => onRelayoutRef.current?.(event));
+                    (currentRef as any).on('plotly_click', (event: { points: any[] }) => onClickRef.current?.(event));
+                    (currentRef as any).on('plotly_legendclick', (event: { curveNumber: number }) => onLegendClickRef.current?.(event) ?? true);
                 }
             });
         }
     }, [data, layout, config, ref]);
-    
+
     // Cleanup on unmount
     useEffect(() => {
         const currentRef = ref && (ref as React.RefObject<HTMLDivElement>).current;
         return () => {
             if (currentRef) {
                 Plotly.purge(currentRef);
+                listenedElementRef.current = null;
             }
         };
     }, [ref]);
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ReferenceLine, XColumnType, YAxisId } from '../types';
+import { formatTimestamp, parseXInput } from '../utils/datetime';
+import { Y_AXIS_LABELS } from './AxesPanel';
+import { formatValue } from './MarkerPanel';
+
+interface ReferenceLinesPanelProps {
+    lines: ReferenceLine[];
+    onAdd: (line: ReferenceLine) => void;
+    onRemove: (id: string) => void;
+    // How the X values are read; vertical lines on datetime axes get date inputs
+    xType: XColumnType;
+}
+
+/**
+ * Sidebar controls for adding and removing reference lines and shaded bands.
+ */
+const ReferenceLinesPanel: React.FC<ReferenceLinesPanelProps> = ({ lines, onAdd, onRemove, xType }) => {
+    const [orientation, setOrientation] = useState<ReferenceLine['orientation']>('horizontal');
+    const [value, setValue] = useState('');
+    const [endValue, setEndValue] = useState('');
+    const [label, setLabel] = useState('');
+    const [color, setColor] = useState('#dc2626');
+    const [yAxis, setYAxis] = useState<YAxisId>('y');
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white';
+    const isDate = orientation === 'vertical' && xType === 'datetime';
+    const parsedValue = parseXInput(value, isDate ? 'datetime' : 'numeric');
+    const parsedEndValue = endValue.trim() === '' ? null : parseXInput(endValue, isDate ? 'datetime' : 'numeric');
+    const formatLineValue = (line: ReferenceLine, lineValue: number) =>
+        (line.orientation === 'vertical' && xType === 'datetime' ? formatTimestamp(lineValue) : formatValue(lineValue));
+    const isValid = Number.isFinite(parsedValue) && (parsedEndValue === null || Number.isFinite(parsedEndValue));
+
+    const handleOrientationChange = (next: ReferenceLine['orientation']) => {
+        // Dates and numbers aren't typed into the same kind of input
+        if (xType === 'datetime') {
+            setValue('');
+            setEndValue('');
+        }
+        setOrientation(next);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+        onAdd({ id: `reference-${Date.now()}`, orientation, value: parsedValue, endValue: parsedEndValue, label: label.trim(), color, yAxis });
+        setValue('');
+        setEndValue('');
+        setLabel('');
+    };
+
+    return (
+        <div className="space-y-2">
+            <span className="block text-sm font-medium text-gray-600">Reference Lines</span>
+            {lines.length > 0 && (
+                <ul className="space-y-1">
+                    {lines.map(line => (
+                        <li key={line.id} className="flex items-center gap-2 text-xs text-gray-700">
+                            <span className="h-3 w-3 rounded-sm flex-shrink-0" style={{ backgroundColor: line.color }} />
+                            <span className="flex-1 min-w-0 truncate">
+                                {line.orientation === 'horizontal' ? 'Y' : 'X'}
+                                {line.endValue === null ? ` = ${formatLineValue(line, line.value)}` : ` ${formatLineValue(line, line.value)} … ${formatLineValue(line, line.endValue)}`}
+                                {line.label && ` (${line.label})`}
+                            </span>
+                            <button type="button" onClick={() => onRemove(line.id)} className="text-gray-500 hover:text-red-600" aria-label={`Remove reference line ${line.label}`}>✕</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <form onSubmit={handleSubmit} className="space-y-1.5">
+                <div className="flex items-center gap-2">
+                    <select value={orientation} onChange={(e) => handleOrientationChange(e.target.value as ReferenceLine['orientation'])} className={inputClassName} aria-label="Orientation">
+                        <option value="horizontal">Horizontal (Y value)</option>
+                        <option value="vertical">Vertical (X value)</option>
+                    </select>
+                    {orientation === 'horizontal' && (
+                        <select value={yAxis} onChange={(e) => setYAxis(e.target.value as YAxisId)} className="p-1.5 border border-gray-300 rounded-md text-sm bg-white" aria-label="Y axis">
+                            {(Object.keys(Y_AXIS_LABELS) as YAxisId[]).map(axis => <option key={axis} value={axis}>{axis.toUpperCase()}</option>)}
+                        </select>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    <input type={isDate ? 'datetime-local' : 'number'} step={isDate ? 1 : undefined} value={value} onChange={(e) => setValue(e.target.value)} placeholder="Value, e.g. -10" className={inputClassName} aria-label="Value" />
+                    <input type={isDate ? 'datetime-local' : 'number'} step={isDate ? 1 : undefined} value={endValue} onChange={(e) => setEndValue(e.target.value)} placeholder="Band end (optional)" className={inputClassName} aria-label="Band end" />
+                </div>
+                <div className="flex items-center gap-2">
+                    <input type="text" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label, e.g. Return loss spec" className={inputClassName} aria-label="Label" />
+                    <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="h-8 w-8 p-0 border-0 bg-transparent cursor-pointer flex-shrink-0" aria-label="Color" />
+                </div>
+                <button type="submit" disabled={!isValid} className="w-full px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50">
+                    Add {parsedEndValue === null ? 'Line' : 'Band'}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default ReferenceLinesPanel;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { EnvelopeBand, StatisticsSettings } from '../types';
+import { ENVELOPE_BANDS, TraceSummary } from '../utils/statistics';
+import { formatValue } from './MarkerPanel';
+
+interface StatisticsPanelProps {
+    settings: StatisticsSettings;
+    onChange: (settings: StatisticsSettings) => void;
+    // The traces of the selected files with their summary statistics
+    summaries: { key: string; label: string; summary: TraceSummary }[];
+    // Formats the X position of the peak, e.g. as a date on a datetime axis
+    formatX?: (value: number) => string;
+}
+
+/**
+ * Sidebar section for the mean and envelope view and the summary statistics of every selected trace.
+ */
+const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ settings, onChange, summaries, formatX = formatValue }) => {
+    return (
+        <div className="space-y-3 pt-2">
+            <label className="flex items-center text-sm text-gray-700">
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                <span className="ml-2">Show mean and envelope instead of the individual traces</span>
+            </label>
+            {settings.enabled && (
+                <div className="flex items-center gap-2">
+                    <select
+                        value={settings.band}
+                        onChange={(e) => onChange({ ...settings, band: e.target.value as EnvelopeBand })}
+                        className="w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                        aria-label="Envelope"
+                    >
+                        {ENVELOPE_BANDS.map(band => <option key={band.value} value={band.value}>{band.label}</option>)}
+                    </select>
+                    <label className="flex items-center text-xs text-gray-700 flex-shrink-0">
+                        <input type="checkbox" checked={settings.showMedian} onChange={(e) => onChange({ ...settings, showMedian: e.target.checked })} className="h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                        <span className="ml-1">Median</span>
+                    </label>
+                </div>
+            )}
+
+            {summaries.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs text-left">
+                        <thead className="text-gray-500">
+                            <tr><th className="py-1 pr-2">Trace</th><th className="pr-2">Min</th><th className="pr-2">Max</th><th className="pr-2">Mean</th><th className="pr-2">RMS</th><th>X at Peak</th></tr>
+                        </thead>
+                        <tbody>
+                            {summaries.map(({ key, label, summary }) => (
+                                <tr key={key} className="border-t border-gray-200 text-gray-800">
+                                    <td className="py-1 pr-2 max-w-[8rem] truncate" title={label}>{label}</td>
+                                    <td className="pr-2">{formatValue(summary.min)}</td>
+                                    <td className="pr-2">{formatValue(summary.max)}</td>
+                                    <td className="pr-2">{formatValue(summary.mean)}</td>
+                                    <td className="pr-2">{formatValue(summary.rms)}</td>
+                                    <td>{formatX(summary.xAtPeak)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StatisticsPanel;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { DEFAULT_STREAM_WINDOW, LiveStream, StreamSettings, StreamStatus } from '../utils/streaming';
+
+interface StreamPanelProps {
+    streams: Record<string, LiveStream>;
+    // The loaded files a stream can append its rows to
+    files: { name: string; label: string }[];
+    // `appendTo` is the file the rows are appended to, or null for a new file named `name`
+    onConnect: (name: string, settings: StreamSettings, appendTo: string | null) => void;
+    onChange: (name: string, changes: Partial<Pick<LiveStream, 'paused' | 'autoScroll'>>) => void;
+    onDisconnect: (name: string) => void;
+}
+
+const STATUS_STYLES: Record<StreamStatus, { label: string; className: string }> = {
+    connecting: { label: 'Connecting', className: 'bg-yellow-100 text-yellow-800' },
+    live: { label: 'Live', className: 'bg-green-100 text-green-800' },
+    closed: { label: 'Closed', className: 'bg-gray-100 text-gray-700' },
+    error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+};
+
+const PLACEHOLDER_URLS: Record<StreamSettings['kind'], string> = {
+    websocket: 'ws://localhost:8765',
+    poll: 'http://localhost:8765/data.csv',
+};
+
+/**
+ * Sidebar section for connecting live data streams and pausing them or letting the view follow them.
+ */
+const StreamPanel: React.FC<StreamPanelProps> = ({ streams, files, onConnect, onChange, onDisconnect }) => {
+    const [name, setName] = useState('');
+    // The file to append to; empty for a new file
+    const [appendTo, setAppendTo] = useState('');
+    const [kind, setKind] = useState<StreamSettings['kind']>('websocket');
+    const [url, setUrl] = useState('');
+    const [pollSeconds, setPollSeconds] = useState('1');
+    const [windowSize, setWindowSize] = useState(String(DEFAULT_STREAM_WINDOW));
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white';
+    // The file may have been removed or connected elsewhere since it was picked
+    const target = files.some(file => file.name === appendTo) ? appendTo : '';
+    const isValid = url.trim() !== ''
+        && (kind === 'websocket' || Number(pollSeconds) > 0)
+        && Number.isInteger(Number(windowSize)) && Number(windowSize) >= 0;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+        onConnect(name.trim() || `Stream ${Object.keys(streams).length + 1}`, {
+            kind,
+            url: url.trim(),
+            pollSeconds: Number(pollSeconds),
+            windowSize: Number(windowSize),
+        }, target || null);
+        setName('');
+        setAppendTo('');
+    };
+
+    return (
+        <div className="space-y-3 pt-2">
+            {(Object.entries(streams) as [string, LiveStream][]).map(([streamName, stream]) => (
+                <div key={streamName} className="space-y-1 text-xs text-gray-700">
+                    <div className="flex items-center gap-2">
+                        <span className="flex-1 min-w-0 truncate font-medium" title={stream.settings.url}>{streamName}</span>
+                        <span className={`px-1.5 py-0.5 rounded font-bold flex-shrink-0 ${STATUS_STYLES[stream.status].className}`}>
+                            {stream.paused && stream.status === 'live' ? 'Paused' : STATUS_STYLES[stream.status].label}
+                        </span>
+                        <button type="button" onClick={() => onDisconnect(streamName)} className="text-gray-500 hover:text-red-600" aria-label={`Disconnect ${streamName}`}>✕</button>
+                    </div>
+                    {stream.message && <p className="text-red-600">{stream.message}</p>}
+                    <div className="flex items-center gap-3">
+                        <span className="flex-1 text-gray-500">{stream.received} rows received</span>
+                        <label className="flex items-center">
+                            <input type="checkbox" checked={stream.autoScroll} onChange={(e) => onChange(streamName, { autoScroll: e.target.checked })} className="h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                            <span className="ml-1">Follow</span>
+                        </label>
+                        <button type="button" onClick={() => onChange(streamName, { paused: !stream.paused })} className="px-2 py-0.5 font-medium border border-gray-300 rounded-md hover:bg-gray-100">
+                            {stream.paused ? 'Resume' : 'Pause'}
+                        </button>
+                    </div>
+                </div>
+            ))}
+            <form onSubmit={handleSubmit} className="space-y-1.5">
+                {files.length > 0 && (
+                    <select value={target} onChange={(e) => setAppendTo(e.target.value)} className={inputClassName} aria-label="Stream target">
+                        <option value="">New file</option>
+                        {files.map(file => <option key={file.name} value={file.name}>Append to {file.label}</option>)}
+                    </select>
+                )}
+                <div className="flex items-center gap-2">
+                    {!target && <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClassName} aria-label="Stream name" />}
+                    <select value={kind} onChange={(e) => setKind(e.target.value as StreamSettings['kind'])} className={inputClassName} aria-label="Stream source">
+                        <option value="websocket">WebSocket</option>
+                        <option value="poll">Poll growing file</option>
+                    </select>
+                </div>
+                <input type="text" inputMode="url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder={PLACEHOLDER_URLS[kind]} className={inputClassName} aria-label="Stream URL" />
+                <div className="flex items-center gap-2">
+                    {kind === 'poll' && (
+                        <label className="flex-1 text-xs text-gray-600">
+                            Poll every (s)
+                            <input type="number" min={0.1} step={0.1} value={pollSeconds} onChange={(e) => setPollSeconds(e.target.value)} className={`${inputClassName} mt-1`} />
+                        </label>
+                    )}
+                    <label className="flex-1 text-xs text-gray-600">
+                        Rows kept (0 = all)
+                        <input type="number" min={0} step={100} value={windowSize} onChange={(e) => setWindowSize(e.target.value)} className={`${inputClassName} mt-1`} />
+                    </label>
+                </div>
+                <p className="text-xs text-gray-500">
+                    WebSocket messages are CSV lines, the first being the header, or JSON objects keyed by column name. Rows appended to a file fill its columns of the same names.
+                </p>
+                <button type="submit" disabled={!isValid} className="w-full action-button btn-secondary disabled:opacity-50">Connect</button>
+            </form>
+        </div>
+    );
+};
+
+export default StreamPanel;
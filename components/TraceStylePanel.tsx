@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { ColorPalette, MarkerSymbol, TraceDrawMode, TraceFill, TraceStyle } from '../types';
+import { MARKER_SYMBOLS, PALETTES } from '../utils/traceStyles';
+
+interface TraceStylePanelProps {
+    // The plotted traces with their generated name and palette color
+    traces: { key: string; name: string; defaultColor: string }[];
+    styles: Record<string, TraceStyle>;
+    onStyleChange: (key: string, style: TraceStyle) => void;
+    palette: ColorPalette;
+    onPaletteChange: (palette: ColorPalette) => void;
+    lineStyles: string[];
+}
+
+const DRAW_MODES: { value: TraceDrawMode; label: string }[] = [
+    { value: 'lines', label: 'Lines' },
+    { value: 'markers', label: 'Markers' },
+    { value: 'lines+markers', label: 'Lines + markers' },
+];
+
+const FILLS: { value: TraceFill; label: string }[] = [
+    { value: 'none', label: 'No fill' },
+    { value: 'tozeroy', label: 'Fill to zero' },
+    { value: 'tonexty', label: 'Fill to previous trace' },
+];
+
+/**
+ * Sidebar section for the color palette and the style, name and visibility of each plotted trace.
+ */
+const TraceStylePanel: React.FC<TraceStylePanelProps> = ({ traces, styles, onStyleChange, palette, onPaletteChange, lineStyles }) => {
+    const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+    const inputClassName = 'w-full p-1.5 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 bg-white';
+    const labelClassName = 'text-xs font-medium text-gray-600';
+
+    return (
+        <div className="space-y-3 pt-2">
+            <div>
+                <label htmlFor="color-palette" className="block text-sm font-medium text-gray-600 mb-1">Color Palette</label>
+                <select id="color-palette" value={palette} onChange={(e) => onPaletteChange(e.target.value as ColorPalette)} className={inputClassName}>
+                    {(Object.keys(PALETTES) as ColorPalette[]).map(name => <option key={name} value={name}>{PALETTES[name].label}</option>)}
+                </select>
+            </div>
+
+            <div className="space-y-1.5">
+                {traces.map(trace => {
+                    const style = styles[trace.key] ?? {};
+                    const update = (changes: Partial<TraceStyle>) => onStyleChange(trace.key, { ...style, ...changes });
+                    const isExpanded = expandedKey === trace.key;
+                    return (
+                        <div key={trace.key} className="border border-gray-200 rounded-md p-1.5">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={!style.hidden}
+                                    onChange={(e) => update({ hidden: !e.target.checked })}
+                                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 flex-shrink-0"
+                                    aria-label={`Show ${trace.name}`}
+                                />
+                                <input
+                                    type="color"
+                                    value={style.color ?? trace.defaultColor}
+                                    onChange={(e) => update({ color: e.target.value })}
+                                    className="h-6 w-6 p-0 border-0 bg-transparent cursor-pointer flex-shrink-0"
+                                    aria-label={`Color of ${trace.name}`}
+                                />
+                                <input
+                                    type="text"
+                                    value={style.displayName ?? ''}
+                                    onChange={(e) => update({ displayName: e.target.value || undefined })}
+                                    placeholder={trace.name}
+                                    className="flex-1 min-w-0 p-1 border border-transparent hover:border-gray-300 rounded-md text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                                    aria-label={`Display name of ${trace.name}`}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => setExpandedKey(isExpanded ? null : trace.key)}
+                                    className="text-xs font-medium text-indigo-600 hover:underline flex-shrink-0"
+                                    aria-expanded={isExpanded}
+                                >
+                                    Style
+                                </button>
+                            </div>
+
+                            {isExpanded && (
+                                <div className="grid grid-cols-2 gap-2 mt-2">
+                                    <label className={labelClassName}>
+                                        Draw As
+                                        <select value={style.mode ?? 'lines'} onChange={(e) => update({ mode: e.target.value as TraceDrawMode })} className={inputClassName}>
+                                            {DRAW_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+                                        </select>
+                                    </label>
+                                    <label className={labelClassName}>
+                                        Line Width
+                                        <input type="number" min={0.5} max={10} step={0.5} value={style.width ?? 2} onChange={(e) => update({ width: Number(e.target.value) || undefined })} className={inputClassName} />
+                                    </label>
+                                    <label className={labelClassName}>
+                                        Dash
+                                        <select value={style.dash ?? ''} onChange={(e) => update({ dash: e.target.value || undefined })} className={inputClassName}>
+                                            <option value="">File style</option>
+                                            {lineStyles.map(dash => <option key={dash} value={dash}>{dash.charAt(0).toUpperCase() + dash.slice(1)}</option>)}
+                                        </select>
+                                    </label>
+                                    <label className={labelClassName}>
+                                        Fill
+                                        <select value={style.fill ?? 'none'} onChange={(e) => update({ fill: e.target.value as TraceFill })} className={inputClassName}>
+                                            {FILLS.map(fill => <option key={fill.value} value={fill.value}>{fill.label}</option>)}
+                                        </select>
+                                    </label>
+                                    {style.mode && style.mode !== 'lines' && (
+                                        <>
+                                            <label className={labelClassName}>
+                                                Marker
+                                                <select value={style.markerSymbol ?? 'circle'} onChange={(e) => update({ markerSymbol: e.target.value as MarkerSymbol })} className={inputClassName}>
+                                                    {MARKER_SYMBOLS.map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+                                                </select>
+                                            </label>
+                                            <label className={labelClassName}>
+                                                Marker Size
+                                                <input type="number" min={2} max={20} value={style.markerSize ?? 6} onChange={(e) => update({ markerSize: Number(e.target.value) || undefined })} className={inputClassName} />
+                                            </label>
+                                        </>
+                                    )}
+                                    <label className={`${labelClassName} col-span-2`}>
+                                        Opacity {Math.round((style.opacity ?? 1) * 100)}%
+                                        <input type="range" min={0.1} max={1} step={0.05} value={style.opacity ?? 1} onChange={(e) => update({ opacity: Number(e.target.value) })} className="w-full" />
+                                    </label>
+                                    <button type="button" onClick={() => onStyleChange(trace.key, {})} className="col-span-2 px-2 py-1 text-xs font-medium border border-gray-300 rounded-md hover:bg-gray-100">
+                                        Reset Style
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default TraceStylePanel;
@@ -0,0 +1,89 @@
+// Draws figures as SVG with Plotly itself, for the render CLI. Plotly runs in a simulated page (jsdom) and is the
+// release index.html loads, so ranges, ticks, legends and Smith charts come out as the app draws them.
+// The simulated page doesn't lay out text, so text sizes are estimated from the characters and the font size;
+// margins and legend widths that depend on them can differ from the browser's by a few pixels.
+import { JSDOM } from 'jsdom';
+import { PlotFigure } from '../utils/plotFigure';
+
+const DEFAULT_FONT_SIZE = 12;
+const LINE_HEIGHT = 1.3; // Line spacing of multi-line text, in font sizes, as Plotly writes it
+const ASCENT = 0.9; // Height of the text above its baseline, in font sizes
+
+/**
+ * Returns the approximate width of a character in a sans-serif font, in font sizes.
+ */
+function characterWidth(character: string): number {
+    if (character === ' ') return 0.28;
+    if ('il.,:;|!\'`'.includes(character)) return 0.25;
+    if ('ftjrI()[]{}/\\-'.includes(character)) return 0.35;
+    if ('mwMW@%'.includes(character)) return 0.85;
+    if (/[A-Z]/.test(character)) return 0.68;
+    if (/[0-9]/.test(character)) return 0.56;
+    return 0.52;
+}
+
+/**
+ * Estimates the box of an SVG element from its text, as if it were drawn at the origin. Elements without text are empty.
+ */
+function estimateTextBox(element: Element): { width: number; height: number; top: number } {
+    const text = element.textContent ?? '';
+    if (!text) return { width: 0, height: 0, top: 0 };
+    let sized: Element | null = element;
+    while (sized && !(sized as SVGElement).style?.fontSize) {
+        sized = sized.parentElement;
+    }
+    const fontSize = sized ? parseFloat((sized as SVGElement).style.fontSize) || DEFAULT_FONT_SIZE : DEFAULT_FONT_SIZE;
+    // Plotly writes each line of multi-line text into a tspan of class "line"
+    const lines = element.querySelectorAll('tspan.line');
+    const lineTexts = lines.length > 0 ? Array.from(lines, line => line.textContent ?? '') : [text];
+    const width = Math.max(...lineTexts.map(line => Array.from(line).reduce((sum, character) => sum + characterWidth(character), 0))) * fontSize;
+    return { width, height: ((lineTexts.length - 1) * LINE_HEIGHT + 1.2) * fontSize, top: -ASCENT * fontSize };
+}
+
+let plotlyPromise: Promise<any> | null = null;
+
+/**
+ * Sets up the simulated page and loads Plotly into it, once.
+ */
+function loadPlotly(): Promise<any> {
+    if (plotlyPromise) return plotlyPromise;
+    const { window } = new JSDOM('<!DOCTYPE html><html><body></body></html>', { pretendToBeVisual: true });
+    const globals = globalThis as Record<string, unknown>;
+    // Plotly looks these up as globals when it loads and draws
+    Object.assign(globals, { window, self: window, document: window.document });
+    ['navigator', 'Element', 'HTMLElement', 'SVGElement', 'Node', 'getComputedStyle', 'requestAnimationFrame', 'cancelAnimationFrame', 'DOMParser', 'XMLSerializer', 'Image']
+        .forEach(name => {
+            if (!(name in globals)) globals[name] = (window as unknown as Record<string, unknown>)[name];
+        });
+    // Canvas is only used for WebGL traces, and the bundled map library creates a worker URL as it loads; the app uses neither
+    window.HTMLCanvasElement.prototype.getContext = () => null;
+    window.URL.createObjectURL = () => '';
+    window.SVGElement.prototype.getBoundingClientRect = function (this: SVGElement) {
+        const box = estimateTextBox(this);
+        return { x: 0, y: box.top, left: 0, top: box.top, width: box.width, height: box.height, right: box.width, bottom: box.top + box.height, toJSON: () => box } as DOMRect;
+    };
+    (window.SVGElement.prototype as unknown as SVGTextContentElement).getComputedTextLength = function (this: SVGElement) {
+        return estimateTextBox(this).width;
+    };
+    plotlyPromise = import('plotly.js-dist-min').then(module => module.default ?? module);
+    return plotlyPromise;
+}
+
+/**
+ * Draws a figure with Plotly and returns it as a standalone SVG document.
+ * @param figure The data and layout, as the app hands them to Plotly.
+ * @param size The size of the image in pixels.
+ */
+export async function renderFigureSvg(figure: PlotFigure, size: { width: number; height: number }): Promise<string> {
+    const Plotly = await loadPlotly();
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    try {
+        await Plotly.newPlot(container, figure.data, { ...figure.layout, ...size }, { staticPlot: true });
+        // What Plotly.toImage returns for SVG, without going through a data URL
+        return Plotly.Snapshot.toSVG(container);
+    } finally {
+        Plotly.purge(container);
+        container.remove();
+    }
+}
@@ -0,0 +1,160 @@
+// Renders data files to an SVG or HTML plot without a browser, through the same parsing and figure building as the app
+// and the same Plotly release, so the plot matches what the app shows for the same files and settings.
+// The plot config is a JSON file with any of the view settings of a saved project, e.g. selectedFiles, fileStyles,
+// fileLabels, traceStyles, xAxis and yAxes titles, layoutMode or plotTemplate. Settings it leaves out take the app's defaults.
+// A saved project can be given instead of data files; the config then changes its settings.
+//
+// Usage: npm run render -- <files...> [--config plot.json] [--out plot.svg] [--format svg|html] [--width 1200] [--height 700] [--theme light|dark]
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { AxisSettings, ColumnMapping, ProjectState, RawTable, YAxisId } from '../types';
+import { parseFileText } from '../utils/parseFile';
+import { buildFigure, PlotFigure } from '../utils/plotFigure';
+import { isProjectFile, parseProject, withDefaults } from '../utils/project';
+import { LINE_STYLES } from '../utils/traceStyles';
+import { renderFigureSvg } from './plotlySvg';
+
+// The Plotly build index.html loads, so HTML output draws like the app. SVG output is drawn by the same release,
+// the exact version of plotly.js-dist-min in package.json.
+const PLOTLY_SCRIPT_URL = 'https://cdn.plot.ly/plotly-2.29.1.min.js';
+const FORMATS = ['svg', 'html'] as const;
+type OutputFormat = typeof FORMATS[number];
+
+// The settings a plot config may hold; axes only need the settings they change
+type PlotConfig = Partial<Omit<ProjectState, 'tables' | 'xAxis' | 'yAxes'>> & {
+    xAxis?: Partial<AxisSettings>;
+    yAxes?: Partial<Record<YAxisId, Partial<AxisSettings>>>;
+};
+
+const args = process.argv.slice(2);
+const OPTIONS = ['config', 'out', 'format', 'width', 'height', 'theme'];
+const option = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+};
+const inputPaths = args.filter((arg, index) => !arg.startsWith('--') && !(index > 0 && OPTIONS.includes(args[index - 1].slice(2))));
+
+/**
+ * Reads the data files into the tables of a session, the way the app imports them, with the app's default line styles.
+ */
+function loadDataFiles(paths: string[]): ProjectState {
+    const tables: Record<string, RawTable> = {};
+    const columnMappings: Record<string, ColumnMapping> = {};
+    const fileOrder: string[] = [];
+    paths.forEach(path => {
+        const fileName = basename(path);
+        if (tables[fileName]) {
+            throw new Error(`Two input files are named ${fileName}`);
+        }
+        const parsed = parseFileText(fileName, readFileSync(path, 'utf8'));
+        if (parsed.type === 'empty') {
+            console.warn(`Skipped ${fileName}: ${parsed.report.failure}`);
+            return;
+        }
+        tables[fileName] = parsed.table;
+        columnMappings[fileName] = parsed.mapping;
+        fileOrder.push(fileName);
+    });
+    const fileStyles = Object.fromEntries(fileOrder.map((fileName, index) => [fileName, LINE_STYLES[index % LINE_STYLES.length]]));
+    return withDefaults({ tables, columnMappings, fileOrder, fileStyles });
+}
+
+/**
+ * Applies a plot config to a session. Derived traces it defines are added to the files, like the app does.
+ */
+function applyConfig(base: ProjectState, config: PlotConfig, selectsAll: boolean): ProjectState {
+    const derivedNames = (config.derivedDefinitions ?? []).map(definition => definition.name).filter(name => !base.fileOrder.includes(name));
+    const fileOrder = [...base.fileOrder, ...derivedNames];
+    const derivedStyles = Object.fromEntries(derivedNames.map((name, index) => [name, LINE_STYLES[(base.fileOrder.length + index) % LINE_STYLES.length]]));
+    const yAxes = { ...base.yAxes };
+    (Object.keys(yAxes) as YAxisId[]).forEach(axis => { yAxes[axis] = { ...yAxes[axis], ...config.yAxes?.[axis] }; });
+    const project: ProjectState = {
+        ...base,
+        ...config,
+        tables: base.tables,
+        fileOrder,
+        selectedFiles: config.selectedFiles ?? (selectsAll ? fileOrder : base.selectedFiles),
+        columnMappings: { ...base.columnMappings, ...config.columnMappings },
+        fileStyles: { ...base.fileStyles, ...derivedStyles, ...config.fileStyles },
+        xAxis: { ...base.xAxis, ...config.xAxis },
+        yAxes,
+    };
+    project.selectedFiles.filter(fileName => !fileOrder.includes(fileName)).forEach(fileName => console.warn(`The config selects ${fileName}, which isn't loaded`));
+    return project;
+}
+
+/**
+ * Returns a standalone page that draws the figure with Plotly, as the app does.
+ */
+function figureToHtml(figure: PlotFigure, size: { width: number; height: number }): string {
+    // Internal properties such as the full-resolution series aren't needed by Plotly
+    const json = (value: unknown) => JSON.stringify(value, (key, item) => (key.startsWith('_') ? undefined : item)).replace(/<\//g, '<\\/');
+    const title = String(figure.layout.title?.text ?? 'Plot').replace(/<[^>]*>/g, '').replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    const layout = { ...figure.layout, width: size.width, height: size.height };
+    // The camera button saves Plotly's own SVG of the plot at the rendered size
+    const toImageButtonOptions = { format: 'svg', filename: 'plot', width: size.width, height: size.height };
+    const config = { displaylogo: false, scrollZoom: true, modeBarButtonsToRemove: ['select2d', 'lasso2d'], toImageButtonOptions };
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${title}</title>
+<script src="${PLOTLY_SCRIPT_URL}"></script>
+</head>
+<body style="margin: 0; background: ${figure.layout.paper_bgcolor ?? '#ffffff'};">
+<div id="plot"></div>
+<script>
+Plotly.newPlot('plot', ${json(figure.data)}, ${json(layout)}, ${json(config)});
+</script>
+</body>
+</html>
+`;
+}
+
+async function main(): Promise<void> {
+    if (inputPaths.length === 0) {
+        throw new Error('Usage: npm run render -- <files...> [--config plot.json] [--out plot.svg] [--format svg|html] [--width 1200] [--height 700] [--theme light|dark]');
+    }
+    const out = option('out');
+    const format = (option('format') ?? (out && /\.html?$/i.test(out) ? 'html' : 'svg')) as OutputFormat;
+    if (!FORMATS.includes(format)) {
+        throw new Error(`Unknown format ${format}, use svg or html`);
+    }
+    const size = { width: Number(option('width') ?? 1200), height: Number(option('height') ?? 700) };
+    if (![size.width, size.height].every(value => Number.isFinite(value) && value > 0)) {
+        throw new Error('The width and height must be positive numbers of pixels');
+    }
+
+    const projectPath = inputPaths.find(path => isProjectFile(path));
+    if (projectPath && inputPaths.length > 1) {
+        throw new Error('A project already holds its data, so it is rendered on its own');
+    }
+    const base = projectPath ? parseProject(readFileSync(projectPath, 'utf8')) : loadDataFiles(inputPaths);
+    const configPath = option('config');
+    let config: PlotConfig = {};
+    if (configPath) {
+        try {
+            config = JSON.parse(readFileSync(configPath, 'utf8'));
+        } catch (err) {
+            throw new Error(`Could not read the config ${configPath}: ${(err as Error).message}`);
+        }
+    }
+    const project = applyConfig(base, config, !projectPath);
+
+    const figure = buildFigure(project, option('theme') === 'dark');
+    Object.entries(figure.derivedErrors).forEach(([name, message]) => console.warn(`${name}: ${message}`));
+    if (figure.data.length === 0) {
+        throw new Error('Nothing to plot: no selected file has a plottable column');
+    }
+    const output = format === 'html' ? figureToHtml(figure, size) : await renderFigureSvg(figure, size);
+    if (out) {
+        writeFileSync(out, output);
+    } else {
+        process.stdout.write(output);
+    }
+}
+
+main().catch(err => {
+    console.error((err as Error).message);
+    process.exitCode = 1;
+});
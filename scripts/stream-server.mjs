@@ -0,0 +1,93 @@
+// Stand-in for a test bench that produces data continuously, for trying out live streaming without hardware.
+// Serves a WebSocket on ws://localhost:<port> that sends CSV lines, and a growing CSV file at
+// http://localhost:<port>/data.csv for polling. Both carry the same rows: time in seconds, a sine and a noisy ramp.
+//
+// Usage: npm run stream-server [-- --port 8765 --rate 10]
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 && args[index + 1] !== undefined ? Number(args[index + 1]) : fallback;
+};
+const port = option('port', 8765);
+const rowsPerSecond = option('rate', 10);
+
+const HEADER = 'time,sine,ramp';
+// The key every WebSocket accept header is derived from, fixed by RFC 6455
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const sockets = new Set();
+let file = `${HEADER}\n`;
+let rowIndex = 0;
+
+/**
+ * Encodes a text message as an unmasked WebSocket frame, as servers send them.
+ */
+function textFrame(text) {
+    const payload = Buffer.from(text);
+    const length = payload.length;
+    const header = length < 126
+        ? Buffer.from([0x81, length])
+        : length < 65536
+            ? Buffer.from([0x81, 126, length >> 8, length & 255])
+            : Buffer.concat([Buffer.from([0x81, 127]), (() => { const size = Buffer.alloc(8); size.writeBigUInt64BE(BigInt(length)); return size; })()]);
+    return Buffer.concat([header, payload]);
+}
+
+const server = createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Range');
+    response.setHeader('Access-Control-Expose-Headers', 'Content-Range');
+    if (request.method === 'OPTIONS') {
+        response.writeHead(204).end();
+        return;
+    }
+    if (!request.url?.startsWith('/data.csv')) {
+        response.writeHead(404).end('Not found');
+        return;
+    }
+    const bytes = Buffer.from(file);
+    const range = /^bytes=(\d+)-$/.exec(request.headers.range ?? '');
+    if (!range) {
+        response.writeHead(200, { 'Content-Type': 'text/csv', 'Content-Length': bytes.length }).end(bytes);
+        return;
+    }
+    const start = Number(range[1]);
+    if (start >= bytes.length) {
+        response.writeHead(416, { 'Content-Range': `bytes */${bytes.length}` }).end();
+        return;
+    }
+    response.writeHead(206, { 'Content-Type': 'text/csv', 'Content-Range': `bytes ${start}-${bytes.length - 1}/${bytes.length}` })
+        .end(bytes.subarray(start));
+});
+
+server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (!key) {
+        socket.destroy();
+        return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n'));
+    socket.write(textFrame(HEADER));
+    sockets.add(socket);
+    // Client frames are not read; a close frame (opcode 8) or a dropped connection ends the stream
+    socket.on('data', data => { if ((data[0] & 0x0f) === 8) socket.end(); });
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => sockets.delete(socket));
+});
+
+setInterval(() => {
+    const time = rowIndex / rowsPerSecond;
+    const line = `${time.toFixed(3)},${Math.sin(2 * Math.PI * 0.2 * time).toFixed(5)},${(0.1 * time + (Math.random() - 0.5) * 0.2).toFixed(5)}`;
+    rowIndex++;
+    file += `${line}\n`;
+    sockets.forEach(socket => socket.write(textFrame(line)));
+}, 1000 / rowsPerSecond);
+
+server.listen(port, () => {
+    console.log(`WebSocket: ws://localhost:${port}`);
+    console.log(`Growing file: http://localhost:${port}/data.csv`);
+});
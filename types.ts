@@ -1,20 +1,314 @@
 
+export type TraceDrawMode = 'lines' | 'markers' | 'lines+markers';
+export type MarkerSymbol = 'circle' | 'square' | 'diamond' | 'triangle-up' | 'x' | 'cross';
+export type TraceFill = 'none' | 'tozeroy' | 'tonexty';
+
 // This corresponds to a single trace in Plotly, representing one line on the chart.
 export interface PlotlyTrace {
+    // Defaults to 'scatter'. S-parameter Smith chart and polar views use the matching Plotly trace types.
+    type?: 'scatter' | 'scattersmith' | 'scatterpolar';
     x: (string | number)[];
     y: (string | number)[];
-    mode: 'lines';
+    // Normalized impedance, used by 'scattersmith' traces
+    real?: number[];
+    imag?: number[];
+    // Magnitude and angle in degrees, used by 'scatterpolar' traces
+    r?: number[];
+    theta?: number[];
+    // Plotly axis ids such as 'x2' or 'y3'. Omitted for the primary axes.
+    xaxis?: string;
+    yaxis?: string;
+    mode: TraceDrawMode;
     name: string;
     line: {
         width: number;
         dash?: string;
+        color?: string;
+    };
+    marker?: {
+        color?: string;
+        symbol?: MarkerSymbol;
+        size?: number;
     };
+    fill?: TraceFill;
+    opacity?: number;
+    // 'legendonly' hides the trace but keeps its legend entry, so it can be shown again
+    visible?: boolean | 'legendonly';
+    showlegend?: boolean;
+    legendgroup?: string;
+    fillcolor?: string;
     // Internal property to store original headers
     _headers: {
         x: string;
         y: string;
     };
+    // Internal property holding the full-resolution series when x/y were downsampled.
+    _full?: {
+        x: number[];
+        y: number[];
+    };
+    // Internal property recording how the X values were read. Datetime X values are in milliseconds.
+    _xType?: XColumnType;
 }
 
+// The user's styling of one trace, applied on top of the defaults when the trace is plotted. Unset fields keep the default.
+export interface TraceStyle {
+    // Replaces the generated `<column> (<file>)` name
+    displayName?: string;
+    color?: string;
+    width?: number;
+    // Replaces the dash pattern of the file
+    dash?: string;
+    mode?: TraceDrawMode;
+    markerSymbol?: MarkerSymbol;
+    markerSize?: number;
+    fill?: TraceFill;
+    opacity?: number;
+    hidden?: boolean;
+}
+
+// Named color sequences for the default trace colors.
+export type ColorPalette = 'plotly' | 'okabe-ito' | 'tol-bright' | 'tableau';
+
+// The color scheme of the UI. 'system' follows the operating system setting.
+export type Theme = 'light' | 'dark' | 'system';
+
+// Named looks of the plot, so the figures a team exports are consistent.
+export type PlotTemplateName = 'screen' | 'presentation' | 'print';
+
 // An object where each key is a filename and the value is an array of traces for that file.
 export type ParsedFileData = Record<string, PlotlyTrace[]>;
+
+// A single cell as produced by PapaParse with dynamic typing enabled. ISO 8601 timestamps with an offset become Dates.
+export type CellValue = string | number | boolean | Date | null;
+
+// The raw, column-oriented contents of a loaded file. Kept so traces can be rebuilt without a re-upload.
+export interface RawTable {
+    headers: string[];
+    columns: Record<string, CellValue[]>;
+    rowCount: number;
+    // Present when the table was imported from a Touchstone (.sNp) file.
+    touchstone?: TouchstoneMeta;
+    // Units per header, read from a units row below the header.
+    units?: Record<string, string>;
+}
+
+// What was found while importing a file, shown from its entry in the file list.
+// Row numbers count data rows, 1 being the first row below the header.
+export interface ImportReport {
+    rowCount: number;
+    columns: ImportedColumn[];
+    // Problems the parser reported, the first `MAX_REPORTED_ITEMS` of them. The row is null when not tied to a row.
+    errors: { row: number | null; message: string }[];
+    errorCount: number;
+    // Why the file was not imported, if it wasn't
+    failure?: string;
+}
+
+export interface ImportedColumn {
+    name: string;
+    type: XColumnType | 'empty';
+    // Cells of a numeric column that aren't numbers, and the rows of the first `MAX_REPORTED_ITEMS` of them
+    invalidCount: number;
+    invalidRows: number[];
+}
+
+// Describes the network data of a Touchstone file. The table stores a `<name> re` and `<name> im` column per parameter.
+export interface TouchstoneMeta {
+    ports: number;
+    parameterType: string;
+    referenceImpedance: number;
+    frequencyHeader: string;
+    parameters: string[];
+}
+
+// How network parameters of Touchstone files are displayed.
+export type SParameterView = 'db' | 'phase' | 'smith' | 'polar';
+
+// How a delimited text file is laid out. Detected from a sample of the file and adjustable before import.
+export interface CsvDialect {
+    delimiter: string;
+    decimal: '.' | ',';
+    // Number of lines (comments, instrument metadata) before the header row
+    skipLines: number;
+    // Whether the row after the header holds units rather than data
+    hasUnitsRow: boolean;
+}
+
+// How the values of an X column are read: as numbers, as timestamps on a date axis, or as category labels.
+export type XColumnType = 'numeric' | 'datetime' | 'categorical';
+
+// Which column of a file is used as X and which columns are plotted as Y traces.
+export interface ColumnMapping {
+    x: string;
+    y: string[];
+    // Overrides the type detected from the X values
+    xType?: XColumnType;
+    // Overrides the detected timestamp format, see `parseTimestamp`
+    dateFormat?: string;
+}
+
+// The operations available for derived traces.
+export type DerivedOperation = 'difference' | 'ratio' | 'offset' | 'scale' | 'movingAverage' | 'derivative' | 'expression' | 'spectrum';
+
+// The window applied to each segment of a trace before its FFT.
+export type SpectrumWindow = 'hann' | 'hamming' | 'blackman' | 'rectangular';
+
+// How the spectrum of a time-domain trace is computed.
+export interface SpectrumSettings {
+    // 'magnitude' gives the amplitude of each frequency, 'psd' the power spectral density
+    output: 'magnitude' | 'psd';
+    window: SpectrumWindow;
+    // Number of half-overlapping segments whose spectra are averaged (Welch's method). 1 transforms the whole trace at once.
+    averages: number;
+    scale: 'db' | 'linear';
+}
+
+// A trace computed from other traces. It is listed in `fileOrder` under its name like an uploaded file.
+export interface DerivedTraceDefinition {
+    id: string;
+    name: string;
+    operation: DerivedOperation;
+    // Trace keys (see `traceKey`) of the inputs. For expressions they are bound to the variables A, B, C, ...
+    inputs: string[];
+    // Offset, scale factor or moving-average window size
+    parameter?: number;
+    expression?: string;
+    spectrum?: SpectrumSettings;
+}
+
+// The Y axes a trace can be assigned to: the primary left axis, a right axis and a second left axis.
+export type YAxisId = 'y' | 'y2' | 'y3';
+
+// 'overlay' draws all traces in one panel, 'stacked' gives each Y axis its own panel sharing X, 'grid' one panel per file.
+export type PlotLayoutMode = 'overlay' | 'stacked' | 'grid';
+
+// 'si' labels ticks with SI prefixes (1.5G), 'scientific' with exponents (1.5e+9).
+export type TickFormat = 'auto' | 'si' | 'scientific';
+
+export interface AxisSettings {
+    title: string;
+    type: 'linear' | 'log';
+    // Fixed range in data units. Null means autorange.
+    range: [number, number] | null;
+    tickFormat: TickFormat;
+    // Draws the axis from high to low values
+    reversed: boolean;
+}
+
+// A horizontal or vertical line, or a shaded band between two values, drawn behind the data.
+export interface ReferenceLine {
+    id: string;
+    orientation: 'horizontal' | 'vertical';
+    value: number;
+    // The other edge of a band. Null draws a line.
+    endValue: number | null;
+    label: string;
+    color: string;
+    // The Y axis a horizontal line is drawn against
+    yAxis: YAxisId;
+}
+
+// The spread drawn around the mean in the statistics view: min to max, one standard deviation, or a percentile range.
+export type EnvelopeBand = 'minmax' | 'std' | 'p5-p95' | 'p10-p90' | 'p25-p75';
+
+export interface StatisticsSettings {
+    // Replaces the individual traces of the selected files with their mean and envelope
+    enabled: boolean;
+    band: EnvelopeBand;
+    showMedian: boolean;
+}
+
+// A spec limit: a piecewise-linear bound over X. Traces must stay below an upper limit and above a lower one.
+export interface LimitMask {
+    id: string;
+    name: string;
+    kind: 'upper' | 'lower';
+    // The corner points of the bound, sorted by X. The mask only applies between the first and last X.
+    points: { x: number; y: number }[];
+    // Only traces drawn against this Y axis are checked
+    yAxis: YAxisId;
+}
+
+// The visible X and Y ranges after the user zoomed or panned, in log10 units on log axes as Plotly reports them.
+// Null means autorange.
+export interface ZoomRange {
+    x: [number, number] | null;
+    y: [number, number] | null;
+    // Secondary Y axes
+    y2?: [number, number] | null;
+    y3?: [number, number] | null;
+}
+
+// The complete state of a plotting session, as saved in project files and the autosave.
+export interface ProjectState {
+    tables: Record<string, RawTable>;
+    columnMappings: Record<string, ColumnMapping>;
+    fileOrder: string[];
+    selectedFiles: string[];
+    fileStyles: Record<string, string>;
+    // Names shown in place of the file names, e.g. in the legend
+    fileLabels: Record<string, string>;
+    // The group each grouped file belongs to, by group name
+    fileGroups: Record<string, string>;
+    xAxis: AxisSettings;
+    yAxes: Record<YAxisId, AxisSettings>;
+    traceAxes: Record<string, YAxisId>;
+    layoutMode: PlotLayoutMode;
+    referenceLines: ReferenceLine[];
+    limitMasks: LimitMask[];
+    statistics: StatisticsSettings;
+    traceStyles: Record<string, TraceStyle>;
+    palette: ColorPalette;
+    plotTemplate: PlotTemplateName;
+    sParamView: SParameterView;
+    // The zone datetime X values are shown in: 'local', 'UTC' or an IANA name
+    timeZone: string;
+    zoomRange: ZoomRange;
+    derivedDefinitions: DerivedTraceDefinition[];
+    markers: Marker[];
+    notes: PlotNote[];
+    highlights: PlotHighlight[];
+}
+
+// A measurement marker placed on a trace. Its Y value is interpolated from the trace at `x`.
+export interface Marker {
+    id: string;
+    traceKey: string;
+    x: number;
+}
+
+// The values read at a marker, as listed in the sidebar and labelled on the plot
+export interface MarkerReadout {
+    id: string;
+    label: string;
+    traceLabel: string;
+    x: number;
+    y: number;
+    // The value of every plotted trace at the marker's X position
+    values: { traceLabel: string; y: number }[];
+}
+
+// A text note placed on the plot at data coordinates. With an arrow, the arrow points at (x, y)
+// and the text sits `ax`, `ay` pixels away from it.
+export interface PlotNote {
+    id: string;
+    text: string;
+    x: number;
+    y: number;
+    // The Y axis the note is anchored to
+    yAxis: YAxisId;
+    showArrow: boolean;
+    ax: number;
+    ay: number;
+    color: string;
+}
+
+// A shaded X range drawn across the height of the plot, e.g. to mark a region of interest.
+export interface PlotHighlight {
+    id: string;
+    start: number;
+    end: number;
+    label: string;
+    color: string;
+}
@@ -0,0 +1,32 @@
+import { textToFile } from './dataSources';
+
+// The plot should redraw within this many milliseconds after a change, with the benchmark data loaded.
+export const RENDER_TIME_TARGET = 500;
+export const BENCHMARK_FILE_COUNT = 50;
+export const BENCHMARK_TRACE_COUNT = 10; // Y columns per file.
+export const BENCHMARK_ROW_COUNT = 2000;
+
+/**
+ * Returns whether the page was opened with `?benchmark`, which loads synthetic files instead of the autosaved session.
+ */
+export function isBenchmarkMode(): boolean {
+    return new URLSearchParams(window.location.search).has('benchmark');
+}
+
+/**
+ * Generates the files of the render-time benchmark: damped sine waves that differ in frequency and phase per column and file.
+ * @returns CSV files with an X column and `BENCHMARK_TRACE_COUNT` Y columns each.
+ */
+export function createBenchmarkFiles(): File[] {
+    const headers = ['Time', ...Array.from({ length: BENCHMARK_TRACE_COUNT }, (_, column) => `Signal ${column + 1}`)];
+    return Array.from({ length: BENCHMARK_FILE_COUNT }, (_, file) => {
+        const lines = [headers.join(',')];
+        for (let row = 0; row < BENCHMARK_ROW_COUNT; row++) {
+            const t = row / BENCHMARK_ROW_COUNT;
+            const values = Array.from({ length: BENCHMARK_TRACE_COUNT }, (_, column) =>
+                (Math.exp(-2 * t) * Math.sin(2 * Math.PI * (column + 1) * 5 * t + file / 10)).toFixed(6));
+            lines.push([t.toFixed(6), ...values].join(','));
+        }
+        return textToFile(lines.join('\n'), `benchmark-${String(file + 1).padStart(2, '0')}.csv`);
+    });
+}
@@ -0,0 +1,170 @@
+import Papa from 'papaparse';
+import { CsvDialect } from '../types';
+
+export const SAMPLE_BYTES = 64 * 1024; // Bytes read from the start of a file for detection and preview.
+
+export const DELIMITERS: { value: string; label: string }[] = [
+    { value: ',', label: 'Comma (,)' },
+    { value: ';', label: 'Semicolon (;)' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe (|)' },
+];
+
+export const STANDARD_DIALECT: CsvDialect = { delimiter: ',', decimal: '.', skipLines: 0, hasUnitsRow: false };
+
+const COMMENT_LINE = /^\s*(#|!|\/\/|%)/;
+const DECIMAL_COMMA_NUMBER = /^[-+]?\d*,\d+(?:[eE][-+]?\d+)?$/;
+const DECIMAL_POINT_NUMBER = /^[-+]?\d*\.\d+(?:[eE][-+]?\d+)?$/;
+
+/**
+ * Splits one line into fields, honoring double-quoted fields.
+ */
+function splitLine(line: string, delimiter: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            quoted = !quoted;
+        } else if (char === delimiter && !quoted) {
+            fields.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    fields.push(current);
+    return fields;
+}
+
+/**
+ * Converts a field to a number, accepting a decimal comma. Returns NaN for non-numeric fields.
+ */
+export function parseNumber(field: string, decimal: CsvDialect['decimal']): number {
+    const trimmed = field.trim();
+    if (trimmed === '') return NaN;
+    return Number(decimal === ',' ? trimmed.replace(',', '.') : trimmed);
+}
+
+/**
+ * Returns true if most non-empty fields of a row are numeric.
+ */
+function isMostlyNumeric(fields: string[], decimal: CsvDialect['decimal']): boolean {
+    const filled = fields.filter(field => field.trim() !== '');
+    const numeric = filled.filter(field => !Number.isNaN(parseNumber(field, decimal)));
+    return filled.length > 0 && numeric.length * 2 > filled.length;
+}
+
+/**
+ * Returns the most frequent value of a list.
+ */
+function mode(values: number[]): number {
+    const counts = new Map<number, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    let best = values[0];
+    counts.forEach((count, value) => {
+        if (count > (counts.get(best) ?? 0) || (count === counts.get(best) && value > best)) best = value;
+    });
+    return best;
+}
+
+/**
+ * Splits a sample into complete lines; a trailing partial line is dropped.
+ */
+function sampleLines(sample: string, isWholeFile: boolean): string[] {
+    const lines = sample.split(/\r?\n/);
+    if (!isWholeFile && lines.length > 1) lines.pop();
+    return lines;
+}
+
+/**
+ * Guesses the delimiter, decimal separator, preamble length and units row of a delimited text file.
+ * @param sample The start of the file.
+ * @param isWholeFile Whether the sample is the complete file, so its last line is complete.
+ * @returns The detected dialect.
+ */
+export function detectDialect(sample: string, isWholeFile: boolean): CsvDialect {
+    const lines = sampleLines(sample, isWholeFile);
+    const dataLines = lines.filter(line => line.trim() !== '' && !COMMENT_LINE.test(line));
+    if (dataLines.length === 0) return STANDARD_DIALECT;
+
+    // The delimiter that splits the body of the file into the most consistent number of fields wins
+    const body = dataLines.slice(Math.floor(dataLines.length / 5));
+    let best = { delimiter: ',', fieldCount: 1, score: -1 };
+    DELIMITERS.forEach(({ value: delimiter }) => {
+        const counts = body.map(line => splitLine(line, delimiter).length);
+        const fieldCount = mode(counts);
+        const score = fieldCount > 1 ? counts.filter(count => count === fieldCount).length / counts.length : 0;
+        if (score > best.score || (score === best.score && fieldCount > best.fieldCount)) {
+            best = { delimiter, fieldCount, score };
+        }
+    });
+    const { delimiter, fieldCount } = best;
+
+    // Anything before the first line with the body's field count is preamble
+    let skipLines = lines.findIndex(line => line.trim() !== '' && !COMMENT_LINE.test(line) && splitLine(line, delimiter).length === fieldCount);
+    if (skipLines < 0) skipLines = 0;
+
+    const rows = lines.slice(skipLines + 1)
+        .filter(line => line.trim() !== '')
+        .map(line => splitLine(line, delimiter));
+    const fields = rows.flat().map(field => field.trim());
+    const commaNumbers = fields.filter(field => DECIMAL_COMMA_NUMBER.test(field)).length;
+    const pointNumbers = fields.filter(field => DECIMAL_POINT_NUMBER.test(field)).length;
+    const decimal: CsvDialect['decimal'] = delimiter !== ',' && commaNumbers > pointNumbers ? ',' : '.';
+
+    const hasUnitsRow = rows.length >= 2 && !isMostlyNumeric(rows[0], decimal) && isMostlyNumeric(rows[1], decimal);
+
+    return { delimiter, decimal, skipLines, hasUnitsRow };
+}
+
+/**
+ * Returns true if a dialect is plain comma-separated values with a header row, which is imported without a preview.
+ */
+export function isStandardDialect(dialect: CsvDialect): boolean {
+    return dialect.delimiter === ',' && dialect.decimal === '.' && dialect.skipLines === 0 && !dialect.hasUnitsRow;
+}
+
+/**
+ * Removes the preamble lines from the start of the file contents.
+ */
+export function stripPreamble(text: string, skipLines: number): string {
+    let index = 0;
+    for (let i = 0; i < skipLines && index >= 0; i++) {
+        index = text.indexOf('\n', index);
+        if (index >= 0) index++;
+    }
+    return index < 0 ? '' : text.slice(index);
+}
+
+/**
+ * Cleans a units cell, e.g. `[V]` or `(Hz)` becomes `V` or `Hz`.
+ */
+export function cleanUnit(unit: unknown): string {
+    return String(unit ?? '').trim().replace(/^[[(]\s*(.*?)\s*[\])]$/, '$1');
+}
+
+/**
+ * Builds the PapaParse value transform that turns decimal commas into points so dynamic typing can convert them.
+ */
+export function decimalTransform(decimal: CsvDialect['decimal']): ((value: string) => string) | undefined {
+    if (decimal !== ',') return undefined;
+    return (value: string) => (DECIMAL_COMMA_NUMBER.test(value.trim()) ? value.trim().replace(',', '.') : value);
+}
+
+/**
+ * Parses the first rows of a sample with a dialect, for the import preview.
+ * @param sample The start of the file.
+ * @param isWholeFile Whether the sample is the complete file.
+ * @param dialect The dialect to parse with.
+ * @param maxRows The maximum number of data rows to return.
+ * @returns The header, the units row if any and the first data rows.
+ */
+export function previewRows(sample: string, isWholeFile: boolean, dialect: CsvDialect, maxRows: number): { header: string[]; units: string[] | null; rows: string[][] } {
+    const text = sampleLines(stripPreamble(sample, dialect.skipLines), isWholeFile).join('\n');
+    const result = Papa.parse<string[]>(text, { delimiter: dialect.delimiter, skipEmptyLines: true, preview: maxRows + 1 });
+    const [header = [], ...rest] = result.data;
+    const units = dialect.hasUnitsRow ? (rest.shift() ?? []).map(cleanUnit) : null;
+    return { header, units, rows: rest.slice(0, maxRows) };
+}
@@ -0,0 +1,69 @@
+// Auto-refresh intervals offered for files opened from a URL, in seconds. 0 turns refreshing off.
+export const REFRESH_INTERVALS: { value: number; label: string }[] = [
+    { value: 0, label: 'Off' },
+    { value: 5, label: 'Every 5 s' },
+    { value: 10, label: 'Every 10 s' },
+    { value: 30, label: 'Every 30 s' },
+    { value: 60, label: 'Every minute' },
+    { value: 300, label: 'Every 5 minutes' },
+];
+
+// A file that was opened from a URL and can be fetched again
+export interface UrlSource {
+    url: string;
+    // Seconds between refreshes, 0 for none
+    refreshSeconds: number;
+}
+
+/**
+ * Wraps pasted text in a file so it goes through the same import path as an upload.
+ * Spreadsheets copy cells as tab-separated text, which the dialect detection recognizes.
+ * @param text The pasted table.
+ * @param name The file name to show.
+ */
+export function textToFile(text: string, name: string): File {
+    return new File([text], name, { type: 'text/csv' });
+}
+
+/**
+ * Returns the file name of a URL: the last path segment, or the host name for URLs without a path.
+ */
+export function fileNameFromUrl(url: string): string {
+    const parsed = new URL(url, window.location.href);
+    const segment = decodeURIComponent(parsed.pathname.split('/').filter(Boolean).pop() ?? '');
+    return segment || `${parsed.hostname}.csv`;
+}
+
+/**
+ * Downloads a URL into a file named after it.
+ * Instruments and file servers on another origin must allow the request with CORS headers.
+ * @param url The address of the CSV or Touchstone file.
+ * @returns The downloaded file.
+ */
+export async function fetchAsFile(url: string): Promise<File> {
+    let response: Response;
+    try {
+        // Bypass the cache, a growing file has to be fetched again in full
+        response = await fetch(url, { cache: 'no-store' });
+    } catch {
+        throw new Error(`Could not reach ${url}. The server may be down or may not allow cross-origin requests.`);
+    }
+    if (!response.ok) {
+        throw new Error(`${url} answered ${response.status} ${response.statusText}`.trim());
+    }
+    return new File([await response.blob()], fileNameFromUrl(url), { type: 'text/csv' });
+}
+
+/**
+ * Returns a name that isn't taken yet by appending a counter before the extension.
+ * @param name The preferred name, e.g. `Pasted data.csv`.
+ * @param taken The names in use.
+ */
+export function uniqueName(name: string, taken: (name: string) => boolean): string {
+    if (!taken(name)) return name;
+    const dot = name.lastIndexOf('.');
+    const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    let counter = 2;
+    while (taken(`${base} ${counter}${extension}`)) counter++;
+    return `${base} ${counter}${extension}`;
+}
@@ -0,0 +1,223 @@
+import { CellValue, ColumnMapping, RawTable, XColumnType } from '../types';
+
+// The format name of ISO 8601 timestamps, which may carry a UTC offset
+export const ISO_FORMAT = 'iso';
+
+// Patterns tried after ISO 8601 when the format of a column is detected, in order.
+// Day-first comes before month-first, so a column is only read month-first if some day is above 12.
+export const DATE_FORMAT_PRESETS = [
+    'dd.MM.yyyy HH:mm:ss',
+    'dd/MM/yyyy HH:mm:ss',
+    'MM/dd/yyyy HH:mm:ss',
+    'yyyy/MM/dd HH:mm:ss',
+    'dd.MM.yyyy',
+    'dd/MM/yyyy',
+    'MM/dd/yyyy',
+];
+
+// The time zone option that follows the browser's zone
+export const LOCAL_TIME_ZONE = 'local';
+
+const SAMPLE_SIZE = 200; // Non-empty values inspected when detecting the type of a column.
+
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2})(?::(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+// Pattern tokens and the regular expression group each one becomes
+const TOKENS: Record<string, string> = {
+    yyyy: '(?<year>\\d{4})',
+    MM: '(?<month>\\d{1,2})',
+    dd: '(?<day>\\d{1,2})',
+    HH: '(?<hour>\\d{1,2})',
+    mm: '(?<minute>\\d{2})',
+    ss: '(?<second>\\d{2})',
+    SSS: '(?<fraction>\\d+)',
+};
+
+interface DateParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    millisecond: number;
+    // Minutes east of UTC, if the timestamp states its offset
+    offset?: number;
+}
+
+const patternCache = new Map<string, RegExp>();
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Compiles a pattern such as `dd.MM.yyyy HH:mm:ss` into a regular expression. Other characters match literally,
+ * runs of whitespace match any whitespace, and the fraction `SSS` may be appended to seconds with a dot or comma.
+ */
+function compilePattern(pattern: string): RegExp {
+    const cached = patternCache.get(pattern);
+    if (cached) return cached;
+    const source = pattern
+        .split(/(yyyy|MM|dd|HH|mm|ss|SSS|\s+)/)
+        .map(part => TOKENS[part] ?? (/^\s+$/.test(part) ? '\\s+' : part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')))
+        .join('');
+    // Loggers often write fractional seconds even when the pattern doesn't mention them
+    const compiled = new RegExp(`^${source}${pattern.includes('SSS') ? '' : '(?:[.,](?<fraction>\\d+))?'}$`);
+    patternCache.set(pattern, compiled);
+    return compiled;
+}
+
+/**
+ * Converts the digits after the decimal point of the seconds to milliseconds.
+ */
+function fractionToMilliseconds(fraction: string | undefined): number {
+    return fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0;
+}
+
+/**
+ * Splits a timestamp into its fields, or returns null if it doesn't match the format.
+ */
+function parseParts(text: string, format: string): DateParts | null {
+    if (format === ISO_FORMAT) {
+        const match = ISO_PATTERN.exec(text);
+        if (!match) return null;
+        const [, year, month, day, hour, minute, second, fraction, zone] = match;
+        let offset: number | undefined;
+        if (zone) {
+            const sign = zone.startsWith('-') ? -1 : 1;
+            const digits = zone.replace(/[^\d]/g, '');
+            offset = zone.toUpperCase() === 'Z' ? 0 : sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0));
+        }
+        return {
+            year: Number(year), month: Number(month), day: Number(day),
+            hour: Number(hour ?? 0), minute: Number(minute ?? 0), second: Number(second ?? 0),
+            millisecond: fractionToMilliseconds(fraction), offset,
+        };
+    }
+    const groups = compilePattern(format).exec(text)?.groups;
+    if (!groups) return null;
+    return {
+        year: Number(groups.year), month: Number(groups.month ?? 1), day: Number(groups.day ?? 1),
+        hour: Number(groups.hour ?? 0), minute: Number(groups.minute ?? 0), second: Number(groups.second ?? 0),
+        millisecond: fractionToMilliseconds(groups.fraction),
+    };
+}
+
+/**
+ * Returns the wall-clock time of an instant in a time zone, encoded as milliseconds since the epoch in UTC.
+ */
+function wallClockOf(instant: number, timeZone: string): number {
+    if (timeZone === 'UTC') return instant;
+    if (timeZone === LOCAL_TIME_ZONE) return instant - new Date(instant).getTimezoneOffset() * 60000;
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    const fields: Record<string, number> = {};
+    formatter.formatToParts(new Date(instant)).forEach(part => { fields[part.type] = Number(part.value); });
+    return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second, ((instant % 1000) + 1000) % 1000);
+}
+
+/**
+ * Reads a timestamp as the wall-clock time in a time zone, in milliseconds since the epoch as if that time were UTC.
+ * Plotly draws dates in UTC, so values encoded this way show up in the chosen zone.
+ * Timestamps without an offset are taken to be in the zone already; ones with an offset are converted to it.
+ * @param value The cell. Date objects come from PapaParse, which converts ISO 8601 timestamps with an offset.
+ * @param format `ISO_FORMAT` or a pattern of the tokens yyyy, MM, dd, HH, mm, ss and SSS.
+ * @param timeZone `LOCAL_TIME_ZONE`, `UTC` or an IANA zone name such as `Europe/Berlin`.
+ * @returns The encoded time, or NaN if the value is not a timestamp in the format.
+ */
+export function parseTimestamp(value: CellValue, format: string, timeZone: string): number {
+    if (value instanceof Date) return wallClockOf(value.getTime(), timeZone);
+    if (typeof value !== 'string') return NaN;
+    const parts = parseParts(value.trim(), format);
+    if (!parts || parts.month < 1 || parts.month > 12 || parts.day < 1 || parts.day > 31 || parts.hour > 24 || parts.minute > 59 || parts.second > 60) {
+        return NaN;
+    }
+    const time = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+    return parts.offset === undefined ? time : wallClockOf(time - parts.offset * 60000, timeZone);
+}
+
+/**
+ * Reads a date as Plotly reports it for a date axis, e.g. `2024-03-01 12:30:15.25`, back into milliseconds.
+ */
+export function parsePlotlyDate(value: string | number): number {
+    return typeof value === 'number' ? value : parseTimestamp(value, ISO_FORMAT, 'UTC');
+}
+
+/**
+ * Formats an encoded time (see `parseTimestamp`) as `yyyy-MM-dd HH:mm:ss.SSS`, leaving out a zero fraction.
+ */
+export function formatTimestamp(time: number): string {
+    if (!Number.isFinite(time)) return '—';
+    const text = new Date(time).toISOString().replace('T', ' ').slice(0, 23);
+    return text.endsWith('.000') ? text.slice(0, 19) : text;
+}
+
+/**
+ * Reads the value of a datetime-local input as an encoded time, see `parseTimestamp`.
+ */
+export function parseDateInput(value: string): number {
+    return parseTimestamp(value, ISO_FORMAT, 'UTC');
+}
+
+/**
+ * Formats an encoded time as the value of a datetime-local input.
+ */
+export function formatDateInput(time: number): string {
+    return formatTimestamp(time).replace(' ', 'T');
+}
+
+/**
+ * Reads an X value typed into a form: the value of a datetime-local input on datetime axes, else a number.
+ * @returns The value, encoded as by `parseTimestamp` for dates, or NaN if the input is empty or invalid.
+ */
+export function parseXInput(text: string, xType: XColumnType): number {
+    if (text.trim() === '') return NaN;
+    return xType === 'datetime' ? parseDateInput(text) : Number(text);
+}
+
+/**
+ * Formats a time difference in milliseconds as seconds, minutes, hours or days.
+ */
+export function formatDuration(milliseconds: number): string {
+    if (!Number.isFinite(milliseconds)) return '—';
+    const seconds = milliseconds / 1000;
+    const magnitude = Math.abs(seconds);
+    const [divisor, unit] = magnitude >= 86400 ? [86400, 'd'] : magnitude >= 3600 ? [3600, 'h'] : magnitude >= 60 ? [60, 'min'] : [1, 's'];
+    return `${Number((seconds / divisor).toPrecision(6))} ${unit}`;
+}
+
+/**
+ * Detects whether a column holds numbers, timestamps or category labels from its first non-empty values.
+ * @param values The column.
+ * @returns The type, and for timestamps the first format that reads every sampled value.
+ */
+export function detectXFormat(values: CellValue[]): { type: XColumnType; dateFormat?: string } {
+    const sample: CellValue[] = [];
+    for (let i = 0; i < values.length && sample.length < SAMPLE_SIZE; i++) {
+        if (values[i] !== null && values[i] !== '') sample.push(values[i]);
+    }
+    if (sample.every(value => typeof value === 'number')) return { type: 'numeric' };
+    const dateFormat = [ISO_FORMAT, ...DATE_FORMAT_PRESETS].find(format => sample.every(value => Number.isFinite(parseTimestamp(value, format, 'UTC'))));
+    return dateFormat ? { type: 'datetime', dateFormat } : { type: 'categorical' };
+}
+
+/**
+ * Returns how the X column of a file is read: the user's override, or else the detected type and format.
+ */
+export function resolveXFormat(table: RawTable, mapping: ColumnMapping): { type: XColumnType; dateFormat?: string } {
+    // Touchstone frequencies are always numeric, and detection would only cost time
+    const detected = table.touchstone ? { type: 'numeric' as const } : detectXFormat(table.columns[mapping.x] ?? []);
+    const type = mapping.xType ?? detected.type;
+    return type === 'datetime' ? { type, dateFormat: mapping.dateFormat ?? detected.dateFormat ?? ISO_FORMAT } : { type };
+}
+
+/**
+ * Returns the time zones offered for datetime axes: the browser's zone, UTC and every IANA zone the browser knows.
+ */
+export function availableTimeZones(): string[] {
+    const zones = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? [];
+    return [LOCAL_TIME_ZONE, 'UTC', ...zones.filter(zone => zone !== 'UTC')];
+}
@@ -0,0 +1,393 @@
+import { DerivedTraceDefinition, ParsedFileData, PlotlyTrace } from '../types';
+import { seriesToTrace, traceKey } from './traces';
+import { computeSpectrum, DEFAULT_SPECTRUM } from './spectrum';
+
+export interface Series {
+    x: number[];
+    y: number[];
+}
+
+export const VARIABLE_NAMES = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+/**
+ * Returns the full-resolution numeric series of a trace.
+ */
+export function traceSeries(trace: PlotlyTrace): Series {
+    return trace._full ?? { x: trace.x.map(Number), y: trace.y.map(Number) };
+}
+
+/**
+ * Returns the points of a series with finite coordinates, sorted by X.
+ */
+export function sortSeries(series: Series): Series {
+    const order = series.x.map((_, i) => i).filter(i => Number.isFinite(series.x[i]) && Number.isFinite(series.y[i]));
+    order.sort((a, b) => series.x[a] - series.x[b]);
+    return { x: order.map(i => series.x[i]), y: order.map(i => series.y[i]) };
+}
+
+/**
+ * Linearly interpolates a series sorted by `sortSeries` at the given X positions,
+ * with a binary search per position. Positions outside the X range of the series yield NaN.
+ * @param sorted The series to sample, sorted by X with finite values only.
+ * @param xs The X positions to sample at.
+ * @returns One interpolated Y value per X position.
+ */
+export function interpolateSorted(sorted: Series, xs: number[]): number[] {
+    const { x: sx, y: sy } = sorted;
+    return xs.map(x => {
+        if (sx.length === 0 || x < sx[0] || x > sx[sx.length - 1]) return NaN;
+        let lo = 0;
+        let hi = sx.length - 1;
+        while (hi - lo > 1) {
+            const mid = (lo + hi) >> 1;
+            if (sx[mid] <= x) lo = mid; else hi = mid;
+        }
+        if (sx[hi] === sx[lo]) return sy[lo];
+        const t = (x - sx[lo]) / (sx[hi] - sx[lo]);
+        return sy[lo] + t * (sy[hi] - sy[lo]);
+    });
+}
+
+/**
+ * Linearly interpolates a series at the given X positions. Positions outside the
+ * X range of the series yield NaN.
+ * @param series The series to sample. It does not need to be sorted.
+ * @param xs The X positions to sample at.
+ * @returns One interpolated Y value per X position.
+ */
+export function interpolateAt(series: Series, xs: number[]): number[] {
+    return interpolateSorted(sortSeries(series), xs);
+}
+
+type ExpressionNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'variable'; name: string }
+    | { kind: 'unary'; operator: string; operand: ExpressionNode }
+    | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    abs: Math.abs,
+    sqrt: Math.sqrt,
+    exp: Math.exp,
+    ln: Math.log,
+    log10: Math.log10,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow,
+    db: (value: number) => 20 * Math.log10(Math.abs(value)),
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Parses an arithmetic expression such as `(A - B) / B * 100` or `db(A) - 3`.
+ * Supports + - * / ^, parentheses, numbers, variables and the functions in `FUNCTIONS`.
+ * @param source The expression text.
+ * @returns The syntax tree of the expression.
+ */
+export function parseExpression(source: string): ExpressionNode {
+    const tokens = source.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[A-Za-z_][A-Za-z0-9_]*|[-+*/^(),]|\S/gi) ?? [];
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const expect = (token: string) => {
+        if (tokens[position] !== token) {
+            throw new Error(`Expected "${token}" but found ${tokens[position] ? `"${tokens[position]}"` : 'end of expression'}`);
+        }
+        position++;
+    };
+
+    const parseSum = (): ExpressionNode => {
+        let node = parseProduct();
+        while (peek() === '+' || peek() === '-') {
+            const operator = tokens[position++];
+            node = { kind: 'binary', operator, left: node, right: parseProduct() };
+        }
+        return node;
+    };
+
+    const parseProduct = (): ExpressionNode => {
+        let node = parseUnary();
+        while (peek() === '*' || peek() === '/') {
+            const operator = tokens[position++];
+            node = { kind: 'binary', operator, left: node, right: parseUnary() };
+        }
+        return node;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (peek() === '-' || peek() === '+') {
+            const operator = tokens[position++];
+            return { kind: 'unary', operator, operand: parseUnary() };
+        }
+        return parsePower();
+    };
+
+    const parsePower = (): ExpressionNode => {
+        const base = parsePrimary();
+        if (peek() === '^') {
+            position++;
+            // Right-associative and binds tighter than unary minus on its left
+            return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+        }
+        return base;
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = tokens[position++];
+        if (token === undefined) {
+            throw new Error('Unexpected end of expression');
+        }
+        if (token === '(') {
+            const node = parseSum();
+            expect(')');
+            return node;
+        }
+        if (/^[\d.]/.test(token)) {
+            return { kind: 'number', value: Number(token) };
+        }
+        if (/^[A-Za-z_]/.test(token)) {
+            if (peek() === '(') {
+                const name = token.toLowerCase();
+                // Own keys only, so names such as "constructor" aren't taken for functions
+                if (!Object.hasOwn(FUNCTIONS, name)) {
+                    throw new Error(`Unknown function "${token}"`);
+                }
+                position++;
+                const args: ExpressionNode[] = [];
+                if (peek() !== ')') {
+                    args.push(parseSum());
+                    while (peek() === ',') {
+                        position++;
+                        args.push(parseSum());
+                    }
+                }
+                expect(')');
+                return { kind: 'call', name, args };
+            }
+            if (Object.hasOwn(CONSTANTS, token.toLowerCase())) {
+                return { kind: 'number', value: CONSTANTS[token.toLowerCase()] };
+            }
+            return { kind: 'variable', name: token };
+        }
+        throw new Error(`Unexpected "${token}"`);
+    };
+
+    const tree = parseSum();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected "${tokens[position]}"`);
+    }
+    return tree;
+}
+
+/**
+ * Evaluates a parsed expression for one set of variable values.
+ */
+function evaluateNode(node: ExpressionNode, variables: Record<string, number>): number {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'variable':
+            return variables[node.name];
+        case 'unary': {
+            const value = evaluateNode(node.operand, variables);
+            return node.operator === '-' ? -value : value;
+        }
+        case 'binary': {
+            const left = evaluateNode(node.left, variables);
+            const right = evaluateNode(node.right, variables);
+            switch (node.operator) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return left / right;
+                default: return Math.pow(left, right);
+            }
+        }
+        case 'call':
+            return FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, variables)));
+    }
+}
+
+/**
+ * Collects the variable names referenced by an expression.
+ */
+function collectVariables(node: ExpressionNode, names: Set<string>): Set<string> {
+    if (node.kind === 'variable') names.add(node.name);
+    if (node.kind === 'unary') collectVariables(node.operand, names);
+    if (node.kind === 'binary') {
+        collectVariables(node.left, names);
+        collectVariables(node.right, names);
+    }
+    if (node.kind === 'call') node.args.forEach(arg => collectVariables(arg, names));
+    return names;
+}
+
+/**
+ * Centered moving average. The window shrinks at the ends of the series.
+ */
+function movingAverage(ys: number[], windowSize: number): number[] {
+    const half = Math.floor(Math.max(1, windowSize) / 2);
+    return ys.map((_, i) => {
+        let sum = 0;
+        let count = 0;
+        for (let j = Math.max(0, i - half); j <= Math.min(ys.length - 1, i + half); j++) {
+            if (Number.isFinite(ys[j])) {
+                sum += ys[j];
+                count++;
+            }
+        }
+        return count > 0 ? sum / count : NaN;
+    });
+}
+
+/**
+ * dy/dx using central differences, and one-sided differences at the ends.
+ */
+function derivative(xs: number[], ys: number[]): number[] {
+    return ys.map((_, i) => {
+        const lo = Math.max(0, i - 1);
+        const hi = Math.min(ys.length - 1, i + 1);
+        return hi === lo ? NaN : (ys[hi] - ys[lo]) / (xs[hi] - xs[lo]);
+    });
+}
+
+/**
+ * Samples a series at evenly spaced X positions, as an FFT needs. Evenly spaced series are used as they are,
+ * others are interpolated over the same X span with the same number of points.
+ * @returns The Y values and the X spacing between them.
+ */
+function uniformSamples(series: Series): { y: number[]; interval: number } {
+    const order = series.x.map((_, i) => i).filter(i => Number.isFinite(series.x[i]) && Number.isFinite(series.y[i]));
+    order.sort((a, b) => series.x[a] - series.x[b]);
+    const xs = order.map(i => series.x[i]);
+    const ys = order.map(i => series.y[i]);
+    const interval = xs.length > 1 ? (xs[xs.length - 1] - xs[0]) / (xs.length - 1) : NaN;
+    if (!(interval > 0)) {
+        throw new Error('A spectrum needs a trace with increasing X values');
+    }
+    // Rounding in the file can shift timestamps slightly without making the spacing uneven
+    const isUniform = xs.every((x, i) => Math.abs(x - (xs[0] + i * interval)) <= interval * 1e-3);
+    if (isUniform) return { y: ys, interval };
+    return { y: interpolateAt({ x: xs, y: ys }, xs.map((_, i) => xs[0] + i * interval)), interval };
+}
+
+/**
+ * Computes the trace of a derived definition. All inputs are aligned on the X grid of
+ * the first input by linear interpolation; points where an input is undefined are dropped.
+ * @param definition The derived trace definition.
+ * @param sources Every trace that can be used as input, keyed by trace key.
+ * @returns The computed trace.
+ */
+export function computeDerivedTrace(definition: DerivedTraceDefinition, sources: Record<string, PlotlyTrace>): PlotlyTrace {
+    const inputs = definition.inputs.map(key => {
+        const trace = sources[key];
+        if (!trace) {
+            throw new Error(`Input "${key.split('::').reverse().join(' in ')}" is not available`);
+        }
+        return trace;
+    });
+    if (inputs.length === 0) {
+        throw new Error('No input traces selected');
+    }
+
+    // A spectrum has frequencies rather than the X values of its input
+    if (definition.operation === 'spectrum') {
+        const { y, interval } = uniformSamples(traceSeries(inputs[0]));
+        // Timestamps are in milliseconds, so their spectrum is taken over seconds to come out in Hz
+        const isDatetime = inputs[0]._xType === 'datetime';
+        const spectrum = computeSpectrum(y, isDatetime ? interval / 1000 : interval, definition.spectrum ?? DEFAULT_SPECTRUM);
+        return { ...seriesToTrace(definition.name, spectrum.x, spectrum.y, { x: isDatetime ? 'Frequency (Hz)' : 'Frequency', y: definition.name }), _xType: 'numeric' };
+    }
+
+    const base = traceSeries(inputs[0]);
+    const order = base.x.map((_, i) => i).sort((a, b) => base.x[a] - base.x[b]);
+    const xs = order.map(i => base.x[i]);
+    const aligned = [order.map(i => base.y[i]), ...inputs.slice(1).map(trace => interpolateAt(traceSeries(trace), xs))];
+    const [a, b] = aligned;
+    const parameter = definition.parameter ?? 0;
+
+    let ys: number[];
+    switch (definition.operation) {
+        case 'difference':
+            ys = a.map((value, i) => value - b[i]);
+            break;
+        case 'ratio':
+            ys = a.map((value, i) => value / b[i]);
+            break;
+        case 'offset':
+            ys = a.map(value => value + parameter);
+            break;
+        case 'scale':
+            ys = a.map(value => value * parameter);
+            break;
+        case 'movingAverage':
+            ys = movingAverage(a, parameter || 5);
+            break;
+        case 'derivative':
+            ys = derivative(xs, a);
+            break;
+        case 'expression': {
+            const tree = parseExpression(definition.expression ?? '');
+            const available = VARIABLE_NAMES.slice(0, aligned.length);
+            collectVariables(tree, new Set()).forEach(name => {
+                if (!available.includes(name)) {
+                    throw new Error(`Unknown variable "${name}"`);
+                }
+            });
+            ys = xs.map((_, i) => {
+                const variables: Record<string, number> = {};
+                available.forEach((name, index) => { variables[name] = aligned[index][i]; });
+                return evaluateNode(tree, variables);
+            });
+            break;
+        }
+    }
+
+    const keep = xs.map((x, i) => Number.isFinite(x) && Number.isFinite(ys[i]));
+    const trace = seriesToTrace(
+        definition.name,
+        xs.filter((_, i) => keep[i]),
+        ys.filter((_, i) => keep[i]),
+        { x: inputs[0]._headers.x, y: definition.name }
+    );
+    // The result keeps the X values of its first input, so a spectrum of it knows they are timestamps
+    if (inputs[0]._xType) {
+        trace._xType = inputs[0]._xType;
+    }
+    return trace;
+}
+
+/**
+ * Computes all derived traces in order, so a definition can use the result of an earlier one.
+ * @param definitions The derived trace definitions.
+ * @param fileData The traces of the uploaded files.
+ * @returns The derived traces keyed by definition name, and an error message per failed definition.
+ */
+export function computeDerivedFileData(
+    definitions: DerivedTraceDefinition[],
+    fileData: ParsedFileData
+): { data: ParsedFileData; errors: Record<string, string> } {
+    const sources: Record<string, PlotlyTrace> = {};
+    Object.entries(fileData).forEach(([fileName, traces]) => {
+        traces.forEach(trace => { sources[traceKey(fileName, trace._headers.y)] = trace; });
+    });
+
+    const data: ParsedFileData = {};
+    const errors: Record<string, string> = {};
+    definitions.forEach(definition => {
+        try {
+            const trace = computeDerivedTrace(definition, sources);
+            data[definition.name] = [trace];
+            sources[traceKey(definition.name, trace._headers.y)] = trace;
+        } catch (err) {
+            data[definition.name] = [];
+            errors[definition.name] = (err as Error).message;
+        }
+    });
+    return { data, errors };
+}
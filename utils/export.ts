@@ -0,0 +1,200 @@
+import { PlotlyTrace } from '../types';
+import { formatTimestamp } from './datetime';
+
+// Declare Plotly to satisfy TypeScript since it's loaded from a CDN
+declare var Plotly: any;
+
+export type ImageFormat = 'png' | 'svg' | 'jpeg' | 'pdf';
+
+export interface ImageExportOptions {
+    format: ImageFormat;
+    width: number;
+    height: number;
+    scale: number;
+    // Enlarges all fonts for figures in reports and papers
+    publication: boolean;
+}
+
+export interface DataExportOptions {
+    // 'merged' writes one table with a column per trace, 'perTrace' one file per trace
+    layout: 'merged' | 'perTrace';
+}
+
+const PUBLICATION_FONT_SCALE = 1.5;
+const PUBLICATION_BASE_FONT_SIZE = 16;
+// How long an object URL outlives the click that downloads it, in milliseconds
+const REVOKE_DELAY = 1000;
+// Milliseconds between the downloads of a per-trace export; browsers block several downloads started at once
+const DOWNLOAD_SPACING = 500;
+
+/**
+ * Triggers a browser download of a URL (an object or data URL).
+ */
+export function downloadUrl(url: string, fileName: string): void {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+}
+
+/**
+ * Triggers a browser download of text content.
+ */
+export function downloadText(content: string, fileName: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    downloadUrl(url, fileName);
+    // Revoked once the browser has started the download; some browsers abort it if the URL goes right after the click
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+}
+
+/**
+ * Returns a copy of a layout with every font enlarged for publication figures.
+ * @param layout A Plotly layout.
+ * @returns The enlarged layout.
+ */
+export function publicationLayout(layout: any): any {
+    const scaleFonts = (value: any, key?: string): any => {
+        if (Array.isArray(value)) {
+            return value.map(item => scaleFonts(item));
+        }
+        if (value && typeof value === 'object') {
+            const copy: Record<string, any> = {};
+            Object.entries(value).forEach(([childKey, child]) => {
+                copy[childKey] = scaleFonts(child, childKey);
+            });
+            if ((key === 'font' || key === 'tickfont') && typeof copy.size === 'number') {
+                copy.size = Math.round(copy.size * PUBLICATION_FONT_SCALE);
+            }
+            return copy;
+        }
+        return value;
+    };
+
+    const scaled = scaleFonts(layout);
+    scaled.font = { ...scaled.font, size: scaled.font?.size ?? PUBLICATION_BASE_FONT_SIZE };
+    Object.keys(scaled).filter(key => /^[xy]axis\d*$/.test(key)).forEach(key => {
+        scaled[key].tickfont = { ...scaled[key].tickfont, size: scaled[key].tickfont?.size ?? PUBLICATION_BASE_FONT_SIZE };
+    });
+    return scaled;
+}
+
+/**
+ * Renders the current figure of a plot to an image and downloads it.
+ * PDF files are produced through the browser's print dialog from the SVG rendering.
+ * @param plotElement The Plotly graph div.
+ * @param fileName The file name without extension.
+ * @param options The image format, size and style.
+ */
+export async function exportPlotImage(plotElement: HTMLElement, fileName: string, options: ImageExportOptions): Promise<void> {
+    const graph = plotElement as any;
+    const figure = {
+        data: graph.data,
+        layout: options.publication ? publicationLayout(graph.layout) : graph.layout,
+    };
+    const isPdf = options.format === 'pdf';
+    // Open the print window before awaiting so it isn't treated as a popup
+    const printWindow = isPdf ? window.open('', '_blank') : null;
+
+    const dataUrl: string = await Plotly.toImage(figure, {
+        format: isPdf ? 'svg' : options.format,
+        width: options.width,
+        height: options.height,
+        scale: isPdf || options.format === 'svg' ? 1 : options.scale,
+    });
+
+    if (!isPdf) {
+        downloadUrl(dataUrl, `${fileName}.${options.format === 'jpeg' ? 'jpg' : options.format}`);
+        return;
+    }
+    if (!printWindow) {
+        throw new Error('The print window was blocked by the browser');
+    }
+    printWindow.document.title = fileName;
+    printWindow.document.body.style.margin = '0';
+    const image = printWindow.document.createElement('img');
+    image.src = dataUrl;
+    image.style.width = '100%';
+    image.onload = () => printWindow.print();
+    printWindow.document.body.appendChild(image);
+}
+
+/**
+ * Quotes a CSV field if needed.
+ */
+function csvField(value: string | number | undefined): string {
+    if (value === undefined || (typeof value === 'number' && !Number.isFinite(value))) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Returns the X value as written to CSV: datetime X values are encoded times, which are written as dates like the plot shows them.
+ */
+function csvX(trace: PlotlyTrace, x: string | number): string | number {
+    return trace._xType === 'datetime' && typeof x === 'number' ? formatTimestamp(x) : x;
+}
+
+/**
+ * Writes one trace as a two-column CSV.
+ */
+export function traceToCsv(trace: PlotlyTrace): string {
+    const lines = [[trace._headers.x, trace.name].map(csvField).join(',')];
+    trace.x.forEach((x, i) => {
+        lines.push(`${csvField(csvX(trace, x))},${csvField(trace.y[i])}`);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Writes several traces as one CSV with an X column and a column per trace.
+ * Traces are joined on their X values; a trace without a sample at an X value gets an empty cell.
+ */
+export function tracesToMergedCsv(traces: PlotlyTrace[]): string {
+    const xValues: (string | number)[] = [];
+    // The trace each X value was first seen in, which decides how it is written
+    const xTraces: PlotlyTrace[] = [];
+    const rowIndex = new Map<string | number, number>();
+    const cells: (string | number)[][] = traces.map(() => []);
+
+    traces.forEach((trace, traceIndex) => {
+        trace.x.forEach((x, i) => {
+            let row = rowIndex.get(x);
+            if (row === undefined) {
+                row = xValues.length;
+                rowIndex.set(x, row);
+                xValues.push(x);
+                xTraces.push(trace);
+            }
+            cells[traceIndex][row] = trace.y[i];
+        });
+    });
+
+    const order = xValues.map((_, i) => i);
+    if (xValues.every(x => typeof x === 'number')) {
+        order.sort((a, b) => (xValues[a] as number) - (xValues[b] as number));
+    }
+
+    const xHeader = traces[0]?._headers.x ?? 'x';
+    const lines = [[xHeader, ...traces.map(trace => trace.name)].map(csvField).join(',')];
+    order.forEach(row => {
+        lines.push([csvX(xTraces[row], xValues[row]), ...cells.map(column => column[row])].map(csvField).join(','));
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Downloads the plotted traces as CSV. Files of a per-trace export are downloaded one after another.
+ * @param traces The traces as they are currently plotted.
+ * @param fileName The file name without extension.
+ * @param options Whether to merge the traces into one file.
+ */
+export function exportPlotData(traces: PlotlyTrace[], fileName: string, options: DataExportOptions): void {
+    if (options.layout === 'merged') {
+        downloadText(tracesToMergedCsv(traces), `${fileName}.csv`, 'text/csv');
+        return;
+    }
+    traces.forEach((trace, index) => {
+        const safeName = trace.name.replace(/[^\w.-]+/g, '_');
+        setTimeout(() => downloadText(traceToCsv(trace), `${fileName}_${index + 1}_${safeName}.csv`, 'text/csv'), index * DOWNLOAD_SPACING);
+    });
+}
@@ -0,0 +1,64 @@
+import { SParameterView, CsvDialect } from '../types';
+import type { ParseRequest, ParseResponse } from '../workers/parseWorker';
+
+export type LoadedFile = Extract<ParseResponse, { type: 'done' }>;
+// A file that was read but holds nothing to plot. Its report says why.
+export type EmptyFile = Extract<ParseResponse, { type: 'empty' }>;
+
+// Rejection reason of a load that was cancelled by the user.
+export class LoadCancelledError extends Error {
+    constructor(fileName: string) {
+        super(`Loading ${fileName} was cancelled`);
+        this.name = 'LoadCancelledError';
+    }
+}
+
+/**
+ * Parses and downsamples a file in a dedicated Web Worker so large files don't block the UI.
+ * @param file The file to load.
+ * @param sParamView How network parameters are shown if the file is a Touchstone file.
+ * @param dialect How the file is laid out if it is a CSV file.
+ * @param timeZone The zone datetime X values are shown in.
+ * @param onProgress Called with the fraction (0 to 1) of the file that has been parsed.
+ * @returns A promise for the parsed file, or the report of a file with no plottable data, and a function that cancels the load.
+ */
+export function loadFileInWorker(
+    file: File,
+    sParamView: SParameterView,
+    dialect: CsvDialect | undefined,
+    timeZone: string,
+    onProgress: (progress: number) => void
+): { promise: Promise<LoadedFile | EmptyFile>; cancel: () => void } {
+    const worker = new Worker(new URL('../workers/parseWorker.ts', import.meta.url), { type: 'module' });
+    let rejectLoad: (reason: Error) => void = () => {};
+
+    const promise = new Promise<LoadedFile | EmptyFile>((resolve, reject) => {
+        rejectLoad = reject;
+        worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+            const response = event.data;
+            if (response.type === 'progress') {
+                onProgress(response.progress);
+                return;
+            }
+            worker.terminate();
+            if (response.type === 'done' || response.type === 'empty') {
+                resolve(response);
+            } else {
+                reject(new Error(`Parsing error in ${file.name}: ${response.message}`));
+            }
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(`Error reading ${file.name}: ${event.message}`));
+        };
+        const request: ParseRequest = { file, sParamView, dialect, timeZone };
+        worker.postMessage(request);
+    });
+
+    const cancel = () => {
+        worker.terminate();
+        rejectLoad(new LoadCancelledError(file.name));
+    };
+
+    return { promise, cancel };
+}
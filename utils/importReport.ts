@@ -0,0 +1,61 @@
+import { CellValue, ImportedColumn, ImportReport, RawTable } from '../types';
+import { detectXFormat } from './datetime';
+
+export const MAX_REPORTED_ITEMS = 100; // Rows listed per problem; the rest are only counted.
+
+/**
+ * Works out the type of a column. A column counts as numeric when most of its cells are numbers,
+ * and its other cells are then reported as invalid.
+ * @param name The header of the column.
+ * @param values The cells of the column, the first being in row 1.
+ */
+function describeColumn(name: string, values: CellValue[]): ImportedColumn {
+    let filled = 0;
+    let numbers = 0;
+    values.forEach(value => {
+        if (value === null || value === '') return;
+        filled++;
+        if (typeof value === 'number') numbers++;
+    });
+    if (filled === 0) return { name, type: 'empty', invalidCount: 0, invalidRows: [] };
+    if (numbers * 2 < filled) {
+        return { name, type: detectXFormat(values).type, invalidCount: 0, invalidRows: [] };
+    }
+    const invalidRows: number[] = [];
+    let invalidCount = 0;
+    values.forEach((value, index) => {
+        if (value === null || value === '' || (typeof value === 'number' && Number.isFinite(value))) return;
+        invalidCount++;
+        if (invalidRows.length < MAX_REPORTED_ITEMS) invalidRows.push(index + 1);
+    });
+    return { name, type: 'numeric', invalidCount, invalidRows };
+}
+
+/**
+ * Describes an imported table: its size, the type of each column and the problems found.
+ * @param table The imported table.
+ * @param errors The problems the parser reported.
+ * @param errorCount The number of problems, which may be more than were kept.
+ */
+export function buildImportReport(table: RawTable, errors: ImportReport['errors'] = [], errorCount = errors.length): ImportReport {
+    return {
+        rowCount: table.rowCount,
+        columns: table.headers.map(header => describeColumn(header, table.columns[header] ?? [])),
+        errors,
+        errorCount,
+    };
+}
+
+/**
+ * Returns the report of a file that could not be read at all.
+ */
+export function failedImportReport(message: string): ImportReport {
+    return { rowCount: 0, columns: [], errors: [], errorCount: 0, failure: message };
+}
+
+/**
+ * Counts the problems in a report: parser errors and invalid cells.
+ */
+export function countImportIssues(report: ImportReport): number {
+    return report.errorCount + report.columns.reduce((count, column) => count + column.invalidCount, 0);
+}
@@ -0,0 +1,89 @@
+import Papa from 'papaparse';
+import { CellValue, LimitMask } from '../types';
+import { Series } from './derived';
+
+export interface LimitResult {
+    // The smallest distance to any limit, in Y units. Negative when a limit is violated, null if no mask covers the trace.
+    margin: number | null;
+    // X ranges in which the trace is outside a limit
+    violations: [number, number][];
+}
+
+/**
+ * Returns the value of a limit at an X position by linear interpolation between its corner points.
+ * At a vertical step the stricter of the two values applies.
+ * @returns The limit, or null outside the X span of the mask.
+ */
+export function limitAt(mask: LimitMask, x: number): number | null {
+    const points = mask.points;
+    if (points.length === 0 || x < points[0].x || x > points[points.length - 1].x) return null;
+    const stricter = (a: number, b: number) => (mask.kind === 'upper' ? Math.min(a, b) : Math.max(a, b));
+    let value: number | null = points.length === 1 ? points[0].y : null;
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (x < a.x || x > b.x) continue;
+        const segmentValue = b.x === a.x ? stricter(a.y, b.y) : a.y + (b.y - a.y) * (x - a.x) / (b.x - a.x);
+        value = value === null ? segmentValue : stricter(value, segmentValue);
+    }
+    return value;
+}
+
+/**
+ * Checks a series against limit masks.
+ * @param series The full-resolution data of the trace.
+ * @param masks The masks that apply to the trace.
+ * @returns The worst-case margin and the X ranges that violate a limit.
+ */
+export function evaluateLimits(series: Series, masks: LimitMask[]): LimitResult {
+    const order = series.x.map((_, i) => i).filter(i => Number.isFinite(series.x[i]) && Number.isFinite(series.y[i]));
+    order.sort((a, b) => series.x[a] - series.x[b]);
+
+    let margin: number | null = null;
+    const violations: [number, number][] = [];
+    // A violation region runs from the last passing point before it to the first passing point after it
+    let violationStart: number | null = null;
+    let previousX: number | null = null;
+    for (const i of order) {
+        const x = series.x[i];
+        const y = series.y[i];
+        let pointMargin: number | null = null;
+        for (const mask of masks) {
+            const limit = limitAt(mask, x);
+            if (limit === null) continue;
+            const distance = mask.kind === 'upper' ? limit - y : y - limit;
+            pointMargin = pointMargin === null ? distance : Math.min(pointMargin, distance);
+        }
+        if (pointMargin !== null) {
+            margin = margin === null ? pointMargin : Math.min(margin, pointMargin);
+        }
+        const isViolation = pointMargin !== null && pointMargin < 0;
+        if (isViolation && violationStart === null) {
+            violationStart = previousX ?? x;
+        } else if (!isViolation && violationStart !== null) {
+            violations.push([violationStart, x]);
+            violationStart = null;
+        }
+        previousX = x;
+    }
+    if (violationStart !== null && previousX !== null) {
+        violations.push([violationStart, previousX]);
+    }
+    return { margin, violations };
+}
+
+/**
+ * Reads the corner points of a limit from CSV text with an X and a Y column. Non-numeric rows, such as a header, are skipped.
+ * @param content The CSV text.
+ * @returns The points sorted by X.
+ */
+export function parseLimitPoints(content: string): { x: number; y: number }[] {
+    const result = Papa.parse<CellValue[]>(content.trim(), { dynamicTyping: true, skipEmptyLines: true });
+    const points = result.data
+        .filter(row => typeof row[0] === 'number' && typeof row[1] === 'number')
+        .map(row => ({ x: row[0] as number, y: row[1] as number }));
+    if (points.length < 2) {
+        throw new Error('A limit needs at least two rows with a numeric X and Y value');
+    }
+    return points.sort((a, b) => a.x - b.x);
+}
@@ -0,0 +1,87 @@
+import { PlotlyTrace } from '../types';
+import { Series, interpolateSorted, sortSeries, traceSeries } from './derived';
+
+// The sorted full-resolution series of each trace, keyed by its X and then its Y array. Plotted copies of a trace
+// share these arrays, so a series is sorted once rather than at every marker readout.
+const sortedSeriesCache = new WeakMap<object, WeakMap<object, Series>>();
+
+/**
+ * Returns the full-resolution series of a trace sorted by X, sorting it only the first time.
+ */
+function sortedTraceSeries(trace: PlotlyTrace): Series {
+    const { x, y } = trace._full ?? trace;
+    let byY = sortedSeriesCache.get(x);
+    if (!byY) {
+        byY = new WeakMap();
+        sortedSeriesCache.set(x, byY);
+    }
+    let sorted = byY.get(y);
+    if (!sorted) {
+        sorted = sortSeries(traceSeries(trace));
+        byY.set(y, sorted);
+    }
+    return sorted;
+}
+
+/**
+ * Returns the Y value of a trace at an X position, interpolated between the samples of its full-resolution data.
+ */
+export function valueAt(trace: PlotlyTrace, x: number): number {
+    return interpolateSorted(sortedTraceSeries(trace), [x])[0];
+}
+
+/**
+ * Finds the X position of the largest or smallest Y value of a series.
+ * @param series The series to search.
+ * @param kind Whether to look for the maximum or the minimum.
+ * @returns The X position, or null if the series has no finite values.
+ */
+export function findExtremum(series: Series, kind: 'max' | 'min'): number | null {
+    let best: number | null = null;
+    let bestY = kind === 'max' ? -Infinity : Infinity;
+    series.y.forEach((y, i) => {
+        if (!Number.isFinite(y) || !Number.isFinite(series.x[i])) return;
+        if (kind === 'max' ? y > bestY : y < bestY) {
+            bestY = y;
+            best = series.x[i];
+        }
+    });
+    return best;
+}
+
+/**
+ * Finds where a series (in dB) first falls a given amount below its peak on each side of the peak,
+ * e.g. the -3 dB bandwidth points of a filter response.
+ * @param series The series, sorted or unsorted, with Y in dB.
+ * @param drop How far below the peak the points lie, in dB.
+ * @returns The interpolated X positions below and above the peak; null where the series never drops that far.
+ */
+export function findDropPoints(series: Series, drop: number): { lower: number | null; upper: number | null } {
+    const order = series.x.map((_, i) => i)
+        .filter(i => Number.isFinite(series.x[i]) && Number.isFinite(series.y[i]))
+        .sort((a, b) => series.x[a] - series.x[b]);
+    const xs = order.map(i => series.x[i]);
+    const ys = order.map(i => series.y[i]);
+    if (ys.length === 0) return { lower: null, upper: null };
+
+    let peakIndex = 0;
+    ys.forEach((y, i) => { if (y > ys[peakIndex]) peakIndex = i; });
+    const level = ys[peakIndex] - drop;
+    const crossing = (i: number, j: number) => xs[i] + ((level - ys[i]) / (ys[j] - ys[i])) * (xs[j] - xs[i]);
+
+    let lower: number | null = null;
+    for (let i = peakIndex; i > 0; i--) {
+        if (ys[i - 1] <= level) {
+            lower = crossing(i - 1, i);
+            break;
+        }
+    }
+    let upper: number | null = null;
+    for (let i = peakIndex; i < ys.length - 1; i++) {
+        if (ys[i + 1] <= level) {
+            upper = crossing(i, i + 1);
+            break;
+        }
+    }
+    return { lower, upper };
+}
@@ -0,0 +1,103 @@
+import Papa from 'papaparse';
+import { CellValue, ColumnMapping, CsvDialect, ImportReport, RawTable } from '../types';
+import { isTouchstoneFile, parseTouchstone } from './touchstone';
+import { rowsToTable } from './traces';
+import { SAMPLE_BYTES, cleanUnit, decimalTransform, detectDialect, stripPreamble } from './csvDialect';
+import { buildImportReport, MAX_REPORTED_ITEMS } from './importReport';
+
+export type ParsedFile =
+    | { type: 'done'; table: RawTable; mapping: ColumnMapping; report: ImportReport }
+    // An empty file or one with fewer than two columns, with the reason in the report
+    | { type: 'empty'; report: ImportReport };
+
+/**
+ * Returns the Papa Parse options that read a CSV file of the given layout into rows keyed by column.
+ */
+export function csvParseConfig(dialect: CsvDialect): Papa.ParseConfig<Record<string, CellValue>> {
+    return {
+        header: true,
+        dynamicTyping: true,
+        skipEmptyLines: true,
+        delimiter: dialect.delimiter,
+        transform: decimalTransform(dialect.decimal),
+        beforeFirstChunk: dialect.skipLines > 0 ? (chunk) => stripPreamble(chunk, dialect.skipLines) : undefined,
+    };
+}
+
+/**
+ * Collects the rows Papa Parse reads from a CSV file, in one piece or chunk by chunk, into a table.
+ * @param dialect The layout the file is parsed with.
+ * @returns `addChunk`, called with each parse result, and `finish`, called once the whole file was read.
+ */
+export function createTableCollector(dialect: CsvDialect): {
+    addChunk: (result: Papa.ParseResult<Record<string, CellValue>>) => void;
+    finish: () => ParsedFile;
+} {
+    const rows: Record<string, CellValue>[] = [];
+    let fields: string[] | undefined;
+    let units: Record<string, string> | undefined;
+    // Parser problems don't stop the import, they are listed in the report
+    const errors: ImportReport['errors'] = [];
+    let errorCount = 0;
+    // Rows parsed before the current chunk, so the row numbers of errors count from the start of the file
+    let rowOffset = 0;
+    // Added to the zero-based index of a parsed row. A units row counts as part of the header, not as row 1.
+    const rowNumberBase = dialect.hasUnitsRow ? 0 : 1;
+
+    const addChunk = (result: Papa.ParseResult<Record<string, CellValue>>) => {
+        result.errors.forEach(err => {
+            errorCount++;
+            if (errors.length < MAX_REPORTED_ITEMS) {
+                errors.push({ row: typeof err.row === 'number' ? rowOffset + err.row + rowNumberBase : null, message: err.message });
+            }
+        });
+        rowOffset += result.data.length;
+        fields = fields ?? result.meta.fields;
+        let data = result.data;
+        if (dialect.hasUnitsRow && !units && fields && data.length > 0) {
+            const unitsRow = data[0];
+            units = {};
+            fields.forEach(field => { units![field] = cleanUnit(unitsRow[field]); });
+            data = data.slice(1);
+        }
+        // Push one by one, spreading millions of rows would overflow the call stack.
+        for (const row of data) {
+            rows.push(row);
+        }
+    };
+
+    const finish = (): ParsedFile => {
+        const table = rowsToTable(rows, fields ?? []);
+        if (units) {
+            table.units = units;
+        }
+        const report = buildImportReport(table, errors, errorCount);
+        if (rows.length === 0 || !fields || fields.length < 2) {
+            const failure = rows.length === 0 ? 'The file has no data rows' : 'The file needs at least two columns, an X column and a Y column';
+            return { type: 'empty', report: { ...report, failure } };
+        }
+        return { type: 'done', table, mapping: { x: fields[0], y: fields.slice(1) }, report };
+    };
+
+    return { addChunk, finish };
+}
+
+/**
+ * Parses the whole text of a CSV or Touchstone file at once, as the web app does in its worker.
+ * @param fileName The name of the file, which tells Touchstone files apart.
+ * @param text The content of the file.
+ * @param dialect How the file is laid out if it is a CSV file. Detected from the text if not given.
+ * @returns The table with its default column mapping, or the report of a file with no plottable data.
+ */
+export function parseFileText(fileName: string, text: string, dialect?: CsvDialect): ParsedFile {
+    if (isTouchstoneFile(fileName)) {
+        const table = parseTouchstone(text, fileName);
+        const { frequencyHeader, parameters } = table.touchstone!;
+        return { type: 'done', table, mapping: { x: frequencyHeader, y: parameters }, report: buildImportReport(table) };
+    }
+    // Detected from the same first bytes the web app looks at
+    const csvDialect = dialect ?? detectDialect(text.slice(0, SAMPLE_BYTES), text.length <= SAMPLE_BYTES);
+    const collector = createTableCollector(csvDialect);
+    collector.addChunk(Papa.parse<Record<string, CellValue>>(text, csvParseConfig(csvDialect)));
+    return collector.finish();
+}
@@ -0,0 +1,312 @@
+import { AxisSettings, ColorPalette, LimitMask, Marker, MarkerReadout, ParsedFileData, PlotLayoutMode, PlotlyTrace, PlotTemplateName, ProjectState, RawTable, SParameterView, StatisticsSettings, TraceStyle, XColumnType, YAxisId, ZoomRange } from '../types';
+import { buildFileTraces, downsampleVisibleRange, DOWNSAMPLED_POINT_COUNT, traceKey } from './traces';
+import { applyTraceStyle, paletteColor } from './traceStyles';
+import { buildStatisticsTraces, STATISTICS_NAME } from './statistics';
+import { computeDerivedFileData, traceSeries } from './derived';
+import { evaluateLimits, LimitResult } from './limits';
+import { valueAt } from './markers';
+import { grayscaleTrace, PLOT_TEMPLATES } from './plotTemplates';
+import { buildPlotLayout } from './plotLayout';
+
+// The steps from the loaded files to the Plotly figure. The app runs each step in a memo of its own, so changing
+// the view only redoes the steps it affects; buildFigure runs them in the same order for a saved project.
+
+// What Plotly draws: the traces and the layout
+export interface PlotFigure {
+    data: PlotlyTrace[];
+    layout: Record<string, any>;
+}
+
+/**
+ * Returns true when the Smith chart or polar view is active and has Touchstone data to show.
+ * These views can only show Touchstone data, so other files are left out while they are active.
+ */
+export function isComplexPlaneView(sParamView: SParameterView, fileOrder: string[], selectedFiles: Set<string>, rawTables: Record<string, RawTable>): boolean {
+    return (sParamView === 'smith' || sParamView === 'polar')
+        && fileOrder.some(fileName => selectedFiles.has(fileName) && rawTables[fileName]?.touchstone);
+}
+
+/**
+ * Returns the traces of every file as they are plotted: the traces of renamed files carry the label in their names,
+ * and while statistics are shown the selected files are combined into the mean and envelope of each shared column,
+ * filed under a name of its own so markers, masks and styles work on them like on any other trace.
+ * @param fileData The traces of the loaded and derived files.
+ * @param statisticsActive Whether the statistics view is on and can be shown.
+ */
+export function buildPlottedFileData(
+    fileData: ParsedFileData,
+    options: { fileOrder: string[]; selectedFiles: Set<string>; fileLabels: Record<string, string>; rawTables: Record<string, RawTable>; statistics: StatisticsSettings; palette: ColorPalette; statisticsActive: boolean }
+): ParsedFileData {
+    const { fileOrder, selectedFiles, fileLabels, rawTables, statistics, palette, statisticsActive } = options;
+    const labelled: ParsedFileData = { ...fileData };
+    (Object.entries(fileLabels) as [string, string][]).forEach(([fileName, label]) => {
+        if (rawTables[fileName] && labelled[fileName]) {
+            labelled[fileName] = labelled[fileName].map(trace => ({ ...trace, name: `${trace._headers.y} (${label})` }));
+        }
+    });
+    if (!statisticsActive) return labelled;
+    return {
+        ...labelled,
+        [STATISTICS_NAME]: buildStatisticsTraces(fileOrder.filter(name => selectedFiles.has(name)).map(name => fileData[name] ?? []), statistics, palette),
+    };
+}
+
+/**
+ * Returns the files whose traces are plotted, in order.
+ */
+export function plottedFileNamesOf(
+    allFileData: ParsedFileData, fileOrder: string[], selectedFiles: Set<string>, rawTables: Record<string, RawTable>, showsComplexPlane: boolean, statisticsActive: boolean
+): string[] {
+    return statisticsActive && allFileData[STATISTICS_NAME]?.length
+        ? [STATISTICS_NAME]
+        : fileOrder.filter(name => selectedFiles.has(name) && allFileData[name] && (!showsComplexPlane || rawTables[name]?.touchstone));
+}
+
+/**
+ * Works out how the X values of the selected files and derived traces are read, from the types their traces record.
+ * Derived traces share the type of the traces they come from, except spectra, whose frequencies are numbers.
+ */
+export function resolveXColumnType(fileOrder: string[], selectedFiles: Set<string>, fileData: ParsedFileData): XColumnType {
+    const types = fileOrder
+        .filter(name => selectedFiles.has(name))
+        .flatMap(name => (fileData[name] ?? []).map(trace => trace._xType ?? 'numeric'));
+    if (types.includes('categorical')) return 'categorical';
+    return types.length > 0 && types.every(type => type === 'datetime') ? 'datetime' : 'numeric';
+}
+
+/**
+ * Returns the X axis settings that apply to the plotted X values: log scales and tick formats only apply to numeric values.
+ */
+export function plotXAxisSettings(xAxis: AxisSettings, xColumnType: XColumnType): AxisSettings {
+    return xColumnType === 'numeric' ? xAxis : { ...xAxis, type: 'linear', tickFormat: 'auto' };
+}
+
+/**
+ * Returns the default color of every trace by its key. The colors follow the order of all loaded traces,
+ * so they don't shift when files are shown or hidden.
+ */
+export function defaultTraceColors(fileOrder: string[], allFileData: ParsedFileData, palette: ColorPalette): Record<string, string> {
+    const colors: Record<string, string> = {};
+    let index = 0;
+    fileOrder.forEach(fileName => (allFileData[fileName] || []).forEach(trace => {
+        colors[traceKey(fileName, trace._headers.y)] = paletteColor(palette, index++);
+    }));
+    return colors;
+}
+
+/**
+ * Returns the traces of every file by their key, at full resolution.
+ */
+export function tracesByKeyOf(allFileData: ParsedFileData): Record<string, PlotlyTrace> {
+    const byKey: Record<string, PlotlyTrace> = {};
+    (Object.entries(allFileData) as [string, PlotlyTrace[]][]).forEach(([fileName, traces]) => {
+        traces.forEach(trace => { byKey[traceKey(fileName, trace._headers.y)] = trace; });
+    });
+    return byKey;
+}
+
+// The plotted traces, with the key and the file of each, and how far each file is downsampled
+export interface PlottedTraces {
+    traces: PlotlyTrace[];
+    traceKeys: string[];
+    traceFiles: string[];
+    downsampleRatios: Record<string, number>;
+}
+
+/**
+ * Styles the traces of the plotted files and assigns them to their axes.
+ * Traces with a full-resolution series are re-downsampled for the visible X range, so zooming in reveals detail.
+ * @param options.plotXAxisType The type of the plotted X axis, see plotXAxisSettings.
+ */
+export function buildPlotTraces(options: {
+    plottedFileNames: string[];
+    allFileData: ParsedFileData;
+    fileStyles: Record<string, string>;
+    showsComplexPlane: boolean;
+    zoomRange: ZoomRange;
+    plotXAxisType: AxisSettings['type'];
+    layoutMode: PlotLayoutMode;
+    traceAxes: Record<string, YAxisId>;
+    traceStyles: Record<string, TraceStyle>;
+    traceColors: Record<string, string>;
+}): PlottedTraces {
+    const { plottedFileNames, allFileData, fileStyles, showsComplexPlane, zoomRange, plotXAxisType, layoutMode, traceAxes, traceStyles, traceColors } = options;
+    const traces: PlotlyTrace[] = [];
+    const keys: string[] = [];
+    const files: string[] = [];
+    const ratios: Record<string, number> = {};
+    let panelCount = 0;
+    // Plotly reports the zoom of a log axis in log10 units
+    const visibleXRange = zoomRange.x && plotXAxisType === 'log'
+        ? zoomRange.x.map(bound => 10 ** bound) as [number, number]
+        : zoomRange.x;
+    plottedFileNames.forEach(fileName => {
+        const style = fileStyles[fileName] || 'solid';
+        // In the grid each file gets its own pair of axes; the first panel keeps the default 'x' and 'y'
+        panelCount++;
+        const panelSuffix = panelCount > 1 ? String(panelCount) : '';
+        allFileData[fileName].forEach((trace: PlotlyTrace) => {
+            const key = traceKey(fileName, trace._headers.y);
+            // Shallow copies: the full-resolution arrays are shared, not cloned
+            const plotted = applyTraceStyle({ ...trace, line: { ...trace.line, dash: trace.line.dash ?? style } }, traceStyles[key], traceColors[key]);
+            if (!showsComplexPlane && layoutMode === 'grid' && panelSuffix) {
+                plotted.xaxis = `x${panelSuffix}`;
+                plotted.yaxis = `y${panelSuffix}`;
+            } else if (!showsComplexPlane && layoutMode !== 'grid' && traceAxes[key] && traceAxes[key] !== 'y') {
+                plotted.yaxis = traceAxes[key];
+            }
+            if (trace._full) {
+                const visible = visibleXRange
+                    ? downsampleVisibleRange(trace._full, visibleXRange, DOWNSAMPLED_POINT_COUNT)
+                    : { x: trace.x as number[], y: trace.y as number[], visibleCount: trace._full.x.length };
+                plotted.x = visible.x;
+                plotted.y = visible.y;
+                ratios[fileName] = Math.max(ratios[fileName] ?? 1, visible.visibleCount / Math.max(visible.x.length, 1));
+            }
+            traces.push(plotted);
+            keys.push(key);
+            files.push(fileName);
+        });
+    });
+    return { traces, traceKeys: keys, traceFiles: files, downsampleRatios: ratios };
+}
+
+/**
+ * Returns the Y axis a trace is drawn against; the grid draws every trace against its panel's copy of Y1.
+ */
+export function plottedAxisOf(key: string, layoutMode: PlotLayoutMode, traceAxes: Record<string, YAxisId>): YAxisId {
+    return layoutMode === 'grid' ? 'y' : traceAxes[key] ?? 'y';
+}
+
+/**
+ * Checks every plotted trace at full resolution against the masks on its Y axis.
+ * @returns The result of each checked trace by its key.
+ */
+export function evaluatePlottedLimits(options: {
+    limitMasks: LimitMask[];
+    plottedTraceKeys: string[];
+    tracesByKey: Record<string, PlotlyTrace>;
+    traceAxes: Record<string, YAxisId>;
+    layoutMode: PlotLayoutMode;
+    showsComplexPlane: boolean;
+}): Record<string, LimitResult> {
+    const { limitMasks, plottedTraceKeys, tracesByKey, traceAxes, layoutMode, showsComplexPlane } = options;
+    const results: Record<string, LimitResult> = {};
+    if (showsComplexPlane) return results;
+    plottedTraceKeys.forEach(key => {
+        const masks = limitMasks.filter(mask => mask.yAxis === plottedAxisOf(key, layoutMode, traceAxes));
+        if (masks.length > 0 && tracesByKey[key]) {
+            results[key] = evaluateLimits(traceSeries(tracesByKey[key]), masks);
+        }
+    });
+    return results;
+}
+
+/**
+ * Draws the limit masks as extra traces after the data traces, once per panel that shows their Y axis.
+ */
+export function buildLimitTraces(options: {
+    limitMasks: LimitMask[];
+    plottedTraceKeys: string[];
+    plottedTraceFiles: string[];
+    traceAxes: Record<string, YAxisId>;
+    layoutMode: PlotLayoutMode;
+    showsComplexPlane: boolean;
+}): PlotlyTrace[] {
+    const { limitMasks, plottedTraceKeys, plottedTraceFiles, traceAxes, layoutMode, showsComplexPlane } = options;
+    if (showsComplexPlane) return [];
+    const usedAxes = new Set(plottedTraceKeys.map(key => plottedAxisOf(key, layoutMode, traceAxes)));
+    const firstPanelAxis = (['y', 'y2', 'y3'] as YAxisId[]).find(axis => usedAxes.has(axis)) ?? 'y';
+    const panelCount = layoutMode === 'grid' ? new Set(plottedTraceFiles).size : 1;
+    return limitMasks.flatMap(mask => Array.from({ length: panelCount }, (_, panel): PlotlyTrace => {
+        const yAxis = layoutMode === 'grid'
+            ? (panel > 0 ? `y${panel + 1}` : 'y')
+            : (usedAxes.has(mask.yAxis) ? mask.yAxis : layoutMode === 'stacked' ? firstPanelAxis : 'y');
+        return {
+            x: mask.points.map(point => point.x),
+            y: mask.points.map(point => point.y),
+            ...(panel > 0 ? { xaxis: `x${panel + 1}` } : {}),
+            ...(yAxis !== 'y' ? { yaxis: yAxis } : {}),
+            mode: 'lines',
+            name: mask.name,
+            line: { width: 2, color: mask.kind === 'upper' ? '#dc2626' : '#ea580c', dash: 'solid' },
+            legendgroup: mask.id,
+            showlegend: panel === 0,
+            _headers: { x: '', y: mask.name },
+        };
+    }));
+}
+
+/**
+ * Reads the values at each marker from the full-resolution data, so they don't depend on downsampling.
+ * @param traceLabel Returns the name a trace is listed under.
+ */
+export function buildMarkerReadouts(
+    markers: Marker[], tracesByKey: Record<string, PlotlyTrace>, plottedTraceKeys: string[], traceLabel: (key: string) => string
+): MarkerReadout[] {
+    return markers.map((marker, index) => {
+        const trace = tracesByKey[marker.traceKey];
+        return {
+            id: marker.id,
+            label: `M${index + 1}`,
+            traceLabel: traceLabel(marker.traceKey),
+            x: marker.x,
+            y: trace ? valueAt(trace, marker.x) : NaN,
+            values: plottedTraceKeys
+                .filter(key => key !== marker.traceKey)
+                .map(key => ({ traceLabel: traceLabel(key), y: valueAt(tracesByKey[key], marker.x) })),
+        };
+    });
+}
+
+/**
+ * Returns the traces handed to Plotly: the data traces followed by the limit traces, in gray for grayscale templates.
+ */
+export function plotDataOf(tracesToPlot: PlotlyTrace[], limitTraces: PlotlyTrace[], plotTemplate: PlotTemplateName): PlotlyTrace[] {
+    const traces = [...tracesToPlot, ...limitTraces];
+    return PLOT_TEMPLATES[plotTemplate].grayscale ? traces.map(grayscaleTrace) : traces;
+}
+
+/**
+ * Builds the figure of a project the way the app draws it, without zoom-dependent state of a live plot.
+ * @param project The project, with the tables of its files.
+ * @param isDark Whether templates that follow the UI theme are drawn dark.
+ * @returns The Plotly data and layout, and the errors of derived traces that could not be computed.
+ */
+export function buildFigure(project: ProjectState, isDark = false): PlotFigure & { derivedErrors: Record<string, string> } {
+    const { tables: rawTables, columnMappings, fileOrder, fileStyles, fileLabels, xAxis, yAxes, traceAxes, layoutMode, referenceLines,
+        limitMasks, statistics, traceStyles, palette, plotTemplate, sParamView, timeZone, zoomRange, derivedDefinitions, markers, notes, highlights } = project;
+    const selectedFiles = new Set(project.selectedFiles);
+
+    const parsedFileData: ParsedFileData = {};
+    (Object.entries(rawTables) as [string, RawTable][]).forEach(([fileName, table]) => {
+        if (columnMappings[fileName]) {
+            parsedFileData[fileName] = buildFileTraces(fileName, table, columnMappings[fileName], sParamView, timeZone).traces;
+        }
+    });
+    const { data: derivedFileData, errors: derivedErrors } = computeDerivedFileData(derivedDefinitions, parsedFileData);
+    const fileData: ParsedFileData = { ...parsedFileData, ...derivedFileData };
+
+    const showsComplexPlane = isComplexPlaneView(sParamView, fileOrder, selectedFiles, rawTables);
+    const statisticsActive = statistics.enabled && !showsComplexPlane;
+    const allFileData = buildPlottedFileData(fileData, { fileOrder, selectedFiles, fileLabels, rawTables, statistics, palette, statisticsActive });
+    const plottedFileNames = plottedFileNamesOf(allFileData, fileOrder, selectedFiles, rawTables, showsComplexPlane, statisticsActive);
+    const xColumnType = resolveXColumnType(fileOrder, selectedFiles, fileData);
+    const plotXAxis = plotXAxisSettings(xAxis, xColumnType);
+    const traceColors = defaultTraceColors(fileOrder, allFileData, palette);
+    const { traces: tracesToPlot, traceKeys: plottedTraceKeys, traceFiles: plottedTraceFiles } = buildPlotTraces({
+        plottedFileNames, allFileData, fileStyles, showsComplexPlane, zoomRange, plotXAxisType: plotXAxis.type, layoutMode, traceAxes, traceStyles, traceColors,
+    });
+    const tracesByKey = tracesByKeyOf(allFileData);
+    const traceLabel = (key: string) => traceStyles[key]?.displayName || tracesByKey[key]?.name || key;
+    const limitResults = evaluatePlottedLimits({ limitMasks, plottedTraceKeys, tracesByKey, traceAxes, layoutMode, showsComplexPlane });
+    const limitTraces = buildLimitTraces({ limitMasks, plottedTraceKeys, plottedTraceFiles, traceAxes, layoutMode, showsComplexPlane });
+    const markerReadouts = buildMarkerReadouts(markers, tracesByKey, plottedTraceKeys, traceLabel);
+
+    const layout = buildPlotLayout({
+        tracesToPlot, plottedTraceKeys, plottedTraceFiles, plottedFileNames, allFileData, fileOrder, selectedFiles, fileStyles, fileLabels,
+        rawTables, columnMappings, plotXAxis, xColumnType, yAxes, traceAxes, layoutMode, sParamView, showsComplexPlane, zoomRange,
+        referenceLines, limitResults, markers, markerReadouts, notes, highlights, plotTemplate, isDark, editRevision: 0,
+    });
+    return { data: plotDataOf(tracesToPlot, limitTraces, plotTemplate), layout, derivedErrors };
+}
@@ -0,0 +1,378 @@
+import { AxisSettings, ColumnMapping, Marker, MarkerReadout, PlotHighlight, PlotLayoutMode, PlotlyTrace, PlotNote, PlotTemplateName, RawTable, ReferenceLine, SParameterView, TickFormat, XColumnType, YAxisId, ZoomRange } from '../types';
+import { LimitResult } from './limits';
+import { STATISTICS_NAME } from './statistics';
+import { PLOT_TEMPLATES, plotColors } from './plotTemplates';
+
+// Plotly tick settings per tick format: d3 SI prefixes, or mantissa and exponent
+const TICK_FORMAT_LAYOUTS: Record<TickFormat, Record<string, string>> = {
+    auto: {},
+    si: { tickformat: '~s' },
+    scientific: { tickformat: '.2~e' },
+};
+
+// What the layout of the plot is built from: the plotted traces and the view settings
+export interface PlotLayoutInput {
+    // The plotted traces, with the key and the file of each
+    tracesToPlot: PlotlyTrace[];
+    plottedTraceKeys: string[];
+    plottedTraceFiles: string[];
+    // The files whose traces are plotted, in order, and the traces of every file
+    plottedFileNames: string[];
+    allFileData: Record<string, PlotlyTrace[]>;
+    fileOrder: string[];
+    selectedFiles: Set<string>;
+    fileStyles: Record<string, string>;
+    fileLabels: Record<string, string>;
+    rawTables: Record<string, RawTable>;
+    columnMappings: Record<string, ColumnMapping>;
+    // The X axis settings as they apply to the X values, see plotXAxisSettings
+    plotXAxis: AxisSettings;
+    xColumnType: XColumnType;
+    yAxes: Record<YAxisId, AxisSettings>;
+    traceAxes: Record<string, YAxisId>;
+    layoutMode: PlotLayoutMode;
+    sParamView: SParameterView;
+    showsComplexPlane: boolean;
+    zoomRange: ZoomRange;
+    referenceLines: ReferenceLine[];
+    limitResults: Record<string, LimitResult>;
+    markers: Marker[];
+    markerReadouts: MarkerReadout[];
+    notes: PlotNote[];
+    highlights: PlotHighlight[];
+    plotTemplate: PlotTemplateName;
+    isDark: boolean;
+    // Changed to drop what was dragged or typed on the plot, see Plotly's `editrevision`
+    editRevision: number;
+}
+
+/**
+ * Builds the Plotly layout of the plot: the axes and panels of the layout mode, the File Styles legend,
+ * reference lines, limit violations, markers and the user's notes and highlights, styled by the plot template.
+ * @returns The layout, or an empty one when nothing is plotted.
+ */
+export function buildPlotLayout(input: PlotLayoutInput): Record<string, any> {
+    const {
+        tracesToPlot, plottedTraceKeys, plottedTraceFiles, plottedFileNames, allFileData, fileOrder, selectedFiles, fileStyles, fileLabels,
+        rawTables, columnMappings, plotXAxis, xColumnType, yAxes, traceAxes, layoutMode, sParamView, showsComplexPlane, zoomRange,
+        referenceLines, limitResults, markers, markerReadouts, notes, highlights, plotTemplate, isDark, editRevision
+    } = input;
+    const fileLabel = (fileName: string) => fileLabels[fileName] || fileName;
+
+    if (tracesToPlot.length === 0) return {};
+
+    const legendShapes: any[] = [];
+    const legendAnnotations: any[] = [];
+    const plottedFiles = plottedFileNames;
+    const mode: PlotLayoutMode = showsComplexPlane ? 'overlay' : layoutMode;
+
+    // The Y axis each trace is drawn against; in the grid every trace is on its panel's copy of Y1
+    const traceAxisIds: YAxisId[] = plottedTraceKeys.map(key => (mode === 'grid' ? 'y' : traceAxes[key] ?? 'y'));
+    const usedYAxes = (['y', 'y2', 'y3'] as YAxisId[]).filter(axis => traceAxisIds.includes(axis));
+    // A right-hand Y2 axis needs room between the plot and the custom legend, an outer Y3 axis room on the left
+    const hasRightAxis = mode === 'overlay' && usedYAxes.includes('y2');
+    const hasOuterAxis = mode === 'overlay' && usedYAxes.includes('y3');
+    const legendX = hasRightAxis ? 1.12 : 1.02;
+    // Fonts, gridlines and colors come from the template, in the dark variant while the UI is dark
+    const template = PLOT_TEMPLATES[plotTemplate];
+    const colors = plotColors(plotTemplate, isDark);
+    // The rows of the File Styles legend grow with its font
+    const legendRowHeight = 0.08 * (template.fontSizes.legend / 12);
+
+    plottedFiles.forEach((fileName, index) => {
+        const style = fileStyles[fileName] || 'solid';
+        const yPos = 1.0 - (index * legendRowHeight);
+        const label = fileLabel(fileName);
+        const truncatedFileName = label.length > 20 ? `${label.substring(0, 17)}...` : label;
+        const styleName = style.charAt(0).toUpperCase() + style.slice(1);
+        const traceCount = allFileData[fileName]?.length || 0;
+        const traceText = traceCount > 0 ? `, ${traceCount} trace${traceCount > 1 ? 's' : ''}` : '';
+
+
+        legendShapes.push({
+            type: 'line', xref: 'paper', yref: 'paper',
+            x0: legendX, y0: yPos, x1: legendX + 0.05, y1: yPos,
+            line: { color: colors.legendLine, width: template.legendLineWidth, dash: style }
+        });
+
+        legendAnnotations.push({
+            xref: 'paper', yref: 'paper',
+            x: legendX + 0.06, y: yPos,
+            text: `<b>${truncatedFileName}</b> (${styleName}${traceText})`,
+            showarrow: false, xanchor: 'left', yanchor: 'middle',
+            font: { size: template.fontSizes.legend, color: colors.text }
+        });
+    });
+
+    // Annotations and shapes on log axes are positioned in log10 units
+    const toAxisValue = (settings: AxisSettings, value: number) => (settings.type === 'log' ? Math.log10(value) : value);
+    const yAxisSettings = (axisRef: string) => (mode === 'grid' ? yAxes.y : yAxes[axisRef as YAxisId]);
+    const markerAnnotations = showsComplexPlane ? [] : markerReadouts
+        .map(readout => ({ readout, traceIndex: plottedTraceKeys.indexOf(markers.find(marker => marker.id === readout.id)!.traceKey) }))
+        .filter(({ readout, traceIndex }) => traceIndex >= 0 && Number.isFinite(readout.y))
+        .map(({ readout, traceIndex }) => {
+            const xref = tracesToPlot[traceIndex].xaxis ?? 'x';
+            const yref = tracesToPlot[traceIndex].yaxis ?? 'y';
+            return {
+                xref, yref, x: toAxisValue(plotXAxis, readout.x), y: toAxisValue(yAxisSettings(yref), readout.y),
+                text: `<b>${readout.label}</b>`, showarrow: true, arrowhead: 2, arrowsize: 1, ax: 0, ay: -30,
+                font: { size: template.fontSizes.annotation, color: colors.title }, bgcolor: colors.annotationBackground, bordercolor: '#4f46e5', borderwidth: 1
+            };
+        });
+
+    if (plottedFiles.length > 0) {
+        legendAnnotations.push({
+            xref: 'paper', yref: 'paper', x: legendX, y: 1.08,
+            text: '<b>File Styles</b>', showarrow: false, xanchor: 'left',
+            font: { size: template.fontSizes.legend, color: colors.title }
+        });
+    }
+    
+    // Calculate the vertical position for the default legend to avoid overlap
+    // The custom legend has a title at y=1.08 and each item takes one row height
+    const customLegendHeight = (plottedFiles.length + 1) * legendRowHeight; // Items + title space
+    const defaultLegendTopY = 1.08 - customLegendHeight;
+
+    // Units read from the files fill in the axis titles the user hasn't typed
+    const xUnits = new Set<string>();
+    plottedFiles.forEach(name => {
+        const units = rawTables[name]?.units;
+        const mapping: ColumnMapping | undefined = columnMappings[name];
+        if (units && mapping && units[mapping.x]) xUnits.add(units[mapping.x]);
+    });
+    const withUnit = (title: string, units: Set<string>) => (units.size === 1 ? `${title} (${[...units][0]})` : title);
+    const xHeader = tracesToPlot[0]?._headers?.x;
+    const defaultXTitle = xHeader ? withUnit(xHeader, xUnits) : 'X-Axis';
+    // The default Y title describes the traces drawn against that axis
+    const defaultYTitle = (traceIndices: number[]) => {
+        if (traceIndices.some(index => rawTables[plottedTraceFiles[index]]?.touchstone)) {
+            return sParamView === 'phase' ? 'Phase (deg)' : 'Magnitude (dB)';
+        }
+        const yHeaders = new Set<string>(traceIndices.map(index => tracesToPlot[index]._headers.y));
+        const yUnits = new Set<string>();
+        traceIndices.forEach(index => {
+            const unit = rawTables[plottedTraceFiles[index]]?.units?.[tracesToPlot[index]._headers.y];
+            if (unit) yUnits.add(unit);
+        });
+        return withUnit(yHeaders.size === 1 ? [...yHeaders][0] : 'Value', yUnits);
+    };
+    const tracesOnAxis = (axis: YAxisId) => traceAxisIds.flatMap((id, index) => (id === axis ? [index] : []));
+
+    const axisTitle = (text: string) => ({ text: `<b>${text}</b>`, font: { size: template.fontSizes.axisTitle, color: colors.text } });
+    const axisStyle = { showgrid: template.showGrid, gridcolor: colors.grid, tickfont: { size: template.fontSizes.tick, color: colors.mutedText } };
+    // A zoom wins over the range set in the sidebar; both are in log10 units on log axes
+    const axisOptions = (settings: AxisSettings, title: string | null, zoomed: [number, number] | null | undefined, valueType: XColumnType = 'numeric') => {
+        const fixedRange = settings.range && settings.type === 'log'
+            ? (settings.range.every(bound => bound > 0) ? settings.range.map(Math.log10) : null)
+            : settings.range;
+        const range = zoomed ?? (fixedRange && settings.reversed ? [...fixedRange].sort((a, b) => b - a) : fixedRange);
+        return {
+            ...(title !== null ? { title: axisTitle(settings.title || title) } : {}),
+            type: valueType === 'datetime' ? 'date' : valueType === 'categorical' ? 'category' : settings.type,
+            ...TICK_FORMAT_LAYOUTS[settings.tickFormat],
+            ...axisStyle,
+            ...(range ? { range, autorange: false } : settings.reversed ? { autorange: 'reversed' } : {})
+        };
+    };
+    const xAxisLayout = (showTitle: boolean) => axisOptions(plotXAxis, showTitle ? defaultXTitle : null, zoomRange.x, xColumnType);
+
+    // The plot areas reference lines are drawn in. A horizontal line goes to the area showing its Y axis.
+    const referenceTargets: {
+        xRef: string;
+        yDomainRef: string;
+        xDomainRef: string;
+        yRefFor: (axis: YAxisId) => { ref: string; settings: AxisSettings } | null;
+    }[] = [];
+    let axisLayout: Record<string, any>;
+    const panelAnnotations: any[] = [];
+    if (showsComplexPlane) {
+        axisLayout = {
+            [sParamView === 'smith' ? 'smith' : 'polar']: sParamView === 'smith'
+                ? {
+                    bgcolor: colors.background, realaxis: axisStyle, imaginaryaxis: axisStyle
+                }
+                : {
+                    bgcolor: colors.background, radialaxis: axisStyle, angularaxis: axisStyle
+                }
+        };
+    } else if (mode === 'grid') {
+        // One panel per file, filled row by row; all panels share the X range and the Y1 settings
+        const columns = Math.ceil(Math.sqrt(plottedFiles.length));
+        const rows = Math.ceil(plottedFiles.length / columns);
+        const width = (1 - 0.08 * (columns - 1)) / columns;
+        const height = (1 - 0.12 * (rows - 1)) / rows;
+        axisLayout = {};
+        plottedFiles.forEach((fileName, index) => {
+            const row = Math.floor(index / columns);
+            const column = index % columns;
+            const suffix = index > 0 ? String(index + 1) : '';
+            const xDomain = [column * (width + 0.08), column * (width + 0.08) + width];
+            const yDomain = [1 - row * (height + 0.12) - height, 1 - row * (height + 0.12)];
+            const panelTraces = plottedTraceFiles.flatMap((name, traceIndex) => (name === fileName ? [traceIndex] : []));
+            axisLayout[`xaxis${suffix}`] = {
+                ...xAxisLayout(index + columns >= plottedFiles.length),
+                domain: xDomain, anchor: `y${suffix}`,
+                ...(index > 0 ? { matches: 'x' } : {})
+            };
+            axisLayout[`yaxis${suffix}`] = {
+                ...axisOptions(yAxes.y, column === 0 ? defaultYTitle(panelTraces) : null, null),
+                domain: yDomain, anchor: `x${suffix}`
+            };
+            referenceTargets.push({
+                xRef: `x${suffix}`, xDomainRef: `x${suffix} domain`, yDomainRef: `y${suffix} domain`,
+                yRefFor: () => ({ ref: `y${suffix}`, settings: yAxes.y })
+            });
+            panelAnnotations.push({
+                xref: 'paper', yref: 'paper', x: (xDomain[0] + xDomain[1]) / 2, y: yDomain[1],
+                text: `<b>${fileLabel(fileName)}</b>`, showarrow: false, xanchor: 'center', yanchor: 'bottom',
+                font: { size: template.fontSizes.legend, color: colors.text }
+            });
+        });
+    } else if (mode === 'stacked') {
+        // One panel per used Y axis, top to bottom, all sharing the X axis below the last panel
+        const panelAxes = usedYAxes.length > 0 ? usedYAxes : (['y'] as YAxisId[]);
+        const height = (1 - 0.06 * (panelAxes.length - 1)) / panelAxes.length;
+        axisLayout = {
+            xaxis: { ...xAxisLayout(true), anchor: panelAxes[panelAxes.length - 1] }
+        };
+        panelAxes.forEach((axis, index) => {
+            axisLayout[axis === 'y' ? 'yaxis' : `yaxis${axis.slice(1)}`] = {
+                ...axisOptions(yAxes[axis], defaultYTitle(tracesOnAxis(axis)), zoomRange[axis]),
+                domain: [1 - index * (height + 0.06) - height, 1 - index * (height + 0.06)],
+                anchor: 'x'
+            };
+            // Lines on an axis without a panel go to the top panel
+            referenceTargets.push({
+                xRef: 'x', xDomainRef: 'x domain', yDomainRef: `${axis} domain`,
+                yRefFor: lineAxis => ((panelAxes.includes(lineAxis) ? lineAxis : panelAxes[0]) === axis ? { ref: axis, settings: yAxes[axis] } : null)
+            });
+        });
+    } else {
+        axisLayout = {
+            xaxis: { ...xAxisLayout(true), ...(hasOuterAxis ? { domain: [0.08, 1] } : {}) },
+            yaxis: axisOptions(yAxes.y, defaultYTitle(tracesOnAxis('y')), zoomRange.y)
+        };
+        if (hasRightAxis) {
+            axisLayout.yaxis2 = {
+                ...axisOptions(yAxes.y2, defaultYTitle(tracesOnAxis('y2')), zoomRange.y2),
+                overlaying: 'y', side: 'right', showgrid: false
+            };
+        }
+        if (hasOuterAxis) {
+            axisLayout.yaxis3 = {
+                ...axisOptions(yAxes.y3, defaultYTitle(tracesOnAxis('y3')), zoomRange.y3),
+                overlaying: 'y', side: 'left', anchor: 'free', position: 0, showgrid: false
+            };
+        }
+        referenceTargets.push({
+            xRef: 'x', xDomainRef: 'x domain', yDomainRef: 'y domain',
+            yRefFor: lineAxis => {
+                const shown = (lineAxis === 'y2' && hasRightAxis) || (lineAxis === 'y3' && hasOuterAxis) ? lineAxis : 'y';
+                return { ref: shown, settings: yAxes[shown] };
+            }
+        });
+    }
+
+    // Reference lines and bands, drawn behind the data with their label at the plot edge
+    const referenceShapes: any[] = [];
+    const referenceAnnotations: any[] = [];
+    referenceLines.forEach(line => {
+        const look = line.endValue === null
+            ? { type: 'line', line: { color: line.color, width: 1.5, dash: 'dash' } }
+            : { type: 'rect', fillcolor: line.color, opacity: 0.15, line: { width: 0 }, layer: 'below' };
+        const start = line.value;
+        const end = line.endValue ?? line.value;
+        const label = { text: line.label, showarrow: false, font: { size: template.fontSizes.annotation - 1, color: line.color } };
+        let isLabelled = !line.label;
+        referenceTargets.forEach(target => {
+            if (line.orientation === 'vertical') {
+                referenceShapes.push({
+                    ...look, xref: target.xRef, yref: target.yDomainRef,
+                    x0: toAxisValue(plotXAxis, start), x1: toAxisValue(plotXAxis, end), y0: 0, y1: 1
+                });
+                if (!isLabelled) {
+                    referenceAnnotations.push({ ...label, xref: target.xRef, yref: target.yDomainRef, x: toAxisValue(plotXAxis, Math.max(start, end)), y: 1, xanchor: 'left', yanchor: 'top' });
+                    isLabelled = true;
+                }
+                return;
+            }
+            const yTarget = target.yRefFor(line.yAxis);
+            if (!yTarget) return;
+            referenceShapes.push({
+                ...look, xref: target.xDomainRef, yref: yTarget.ref,
+                x0: 0, x1: 1, y0: toAxisValue(yTarget.settings, start), y1: toAxisValue(yTarget.settings, end)
+            });
+            if (!isLabelled) {
+                referenceAnnotations.push({ ...label, xref: target.xDomainRef, yref: yTarget.ref, x: 1, y: toAxisValue(yTarget.settings, Math.max(start, end)), xanchor: 'right', yanchor: 'bottom' });
+                isLabelled = true;
+            }
+        });
+    });
+
+    // The user's notes and highlights are named after their ids, so edits made on the plot can be traced back to them.
+    // Notes go to the first panel showing their Y axis and highlights span every panel, like vertical reference lines.
+    const noteAnnotations: any[] = [];
+    const highlightShapes: any[] = [];
+    const highlightAnnotations: any[] = [];
+    if (!showsComplexPlane) {
+        notes.forEach(note => {
+            const target = referenceTargets.find(candidate => candidate.yRefFor(note.yAxis));
+            const yTarget = target?.yRefFor(note.yAxis);
+            if (!target || !yTarget) return;
+            noteAnnotations.push({
+                name: note.id, xref: target.xRef, yref: yTarget.ref,
+                x: toAxisValue(plotXAxis, note.x), y: toAxisValue(yTarget.settings, note.y),
+                text: note.text, showarrow: note.showArrow, arrowhead: 2, arrowsize: 1, arrowcolor: note.color, ax: note.ax, ay: note.ay,
+                font: { size: template.fontSizes.annotation, color: note.color }, bgcolor: colors.annotationBackground, bordercolor: note.color, borderwidth: 1
+            });
+        });
+        highlights.forEach(highlight => {
+            referenceTargets.forEach((target, index) => {
+                // Drawn above the data, since shapes below it can't be dragged
+                highlightShapes.push({
+                    name: highlight.id, type: 'rect', xref: target.xRef, yref: target.yDomainRef,
+                    x0: toAxisValue(plotXAxis, highlight.start), x1: toAxisValue(plotXAxis, highlight.end), y0: 0, y1: 1,
+                    fillcolor: highlight.color, opacity: 0.2, line: { width: 0 }
+                });
+                if (index === 0 && highlight.label) {
+                    highlightAnnotations.push({
+                        xref: target.xRef, yref: target.yDomainRef, x: toAxisValue(plotXAxis, highlight.start), y: 1,
+                        text: highlight.label, showarrow: false, xanchor: 'left', yanchor: 'top', font: { size: template.fontSizes.annotation - 1, color: colors.text }
+                    });
+                }
+            });
+        });
+    }
+
+    // Regions where a trace violates a limit mask are shaded across the height of its panel
+    const violationShapes = showsComplexPlane ? [] : plottedTraceKeys.flatMap((key, index) => (limitResults[key]?.violations ?? []).map(([start, end]) => ({
+        type: 'rect', xref: tracesToPlot[index].xaxis ?? 'x', yref: `${tracesToPlot[index].yaxis ?? 'y'} domain`,
+        x0: toAxisValue(plotXAxis, start), x1: toAxisValue(plotXAxis, end), y0: 0, y1: 1,
+        fillcolor: '#dc2626', opacity: 0.12, line: { width: 0 }, layer: 'below'
+    })));
+
+    return {
+         title: { text: plottedFiles[0] === STATISTICS_NAME ? `<b>Statistics of ${fileOrder.filter(name => selectedFiles.has(name)).map(fileLabel).join(', ')}</b>` : `<b>Plot of ${plottedFiles.map(fileLabel).join(', ')}</b>`, font: { size: template.fontSizes.title, color: colors.title } },
+         ...axisLayout,
+         margin: { t: 60, l: hasOuterAxis ? 90 : 70, r: hasRightAxis ? 310 : 250, b: 60 },
+         hovermode: showsComplexPlane ? 'closest' : 'x unified',
+         showlegend: true,
+         legend: {
+            x: legendX,
+            y: defaultLegendTopY,
+            xanchor: 'left',
+            yanchor: 'top',
+            bgcolor: colors.legendBackground,
+            bordercolor: colors.legendBorder,
+            borderwidth: 1
+         },
+         font: { family: template.fontFamily, size: template.fontSizes.tick, color: colors.text },
+         plot_bgcolor: colors.background,
+         paper_bgcolor: colors.background,
+         // Zoom, pan and legend state set in the plot survive redraws until the panels are rebuilt
+         uirevision: `${layoutMode}:${showsComplexPlane ? sParamView : 'cartesian'}:${xColumnType}`,
+         editrevision: editRevision,
+         shapes: [...legendShapes, ...referenceShapes, ...violationShapes, ...highlightShapes],
+         annotations: [...legendAnnotations, ...panelAnnotations, ...referenceAnnotations, ...markerAnnotations, ...highlightAnnotations, ...noteAnnotations],
+    };
+}
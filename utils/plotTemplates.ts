@@ -0,0 +1,144 @@
+import { PlotlyTrace, PlotTemplateName } from '../types';
+
+// The colors a plot is drawn with, resolved from its template and the UI theme
+export interface PlotColors {
+    background: string;
+    title: string;
+    // Axis titles, annotations and the File Styles legend
+    text: string;
+    // Tick labels
+    mutedText: string;
+    grid: string;
+    // The line samples of the File Styles legend
+    legendLine: string;
+    legendBackground: string;
+    legendBorder: string;
+    annotationBackground: string;
+}
+
+export interface PlotTemplate {
+    label: string;
+    fontFamily: string;
+    fontSizes: { title: number; axisTitle: number; tick: number; legend: number; annotation: number };
+    showGrid: boolean;
+    // The width of the line samples in the File Styles legend
+    legendLineWidth: number;
+    // Draws every trace in shades of gray, for black-and-white printing
+    grayscale: boolean;
+    // Whether the plot goes dark with the UI. Other templates are always drawn on white.
+    followsTheme: boolean;
+}
+
+const LIGHT_COLORS: PlotColors = {
+    background: '#ffffff',
+    title: '#1f2937',
+    text: '#374151',
+    mutedText: '#718096',
+    grid: '#e2e8f0',
+    legendLine: '#1f2937',
+    legendBackground: 'rgba(255,255,255,0.6)',
+    legendBorder: '#e2e8f0',
+    annotationBackground: 'rgba(255,255,255,0.8)',
+};
+
+const DARK_COLORS: PlotColors = {
+    background: '#111827',
+    title: '#f3f4f6',
+    text: '#d1d5db',
+    mutedText: '#9ca3af',
+    grid: '#374151',
+    legendLine: '#e5e7eb',
+    legendBackground: 'rgba(17,24,39,0.6)',
+    legendBorder: '#374151',
+    annotationBackground: 'rgba(17,24,39,0.8)',
+};
+
+const PRINT_COLORS: PlotColors = {
+    background: '#ffffff',
+    title: '#000000',
+    text: '#000000',
+    mutedText: '#333333',
+    grid: '#d4d4d4',
+    legendLine: '#000000',
+    legendBackground: 'rgba(255,255,255,0.9)',
+    legendBorder: '#000000',
+    annotationBackground: 'rgba(255,255,255,0.9)',
+};
+
+export const PLOT_TEMPLATES: Record<PlotTemplateName, PlotTemplate> = {
+    'screen': {
+        label: 'Screen',
+        fontFamily: 'Inter, sans-serif',
+        fontSizes: { title: 20, axisTitle: 14, tick: 12, legend: 12, annotation: 12 },
+        showGrid: true,
+        legendLineWidth: 2,
+        grayscale: false,
+        followsTheme: true,
+    },
+    // Larger type and legend lines that stay readable on a projector
+    'presentation': {
+        label: 'Presentation',
+        fontFamily: 'Inter, sans-serif',
+        fontSizes: { title: 26, axisTitle: 18, tick: 15, legend: 15, annotation: 15 },
+        showGrid: true,
+        legendLineWidth: 3,
+        grayscale: false,
+        followsTheme: true,
+    },
+    'print': {
+        label: 'Print (grayscale)',
+        fontFamily: 'Arial, Helvetica, sans-serif',
+        fontSizes: { title: 18, axisTitle: 13, tick: 11, legend: 11, annotation: 11 },
+        showGrid: false,
+        legendLineWidth: 2,
+        grayscale: true,
+        followsTheme: false,
+    },
+};
+
+/**
+ * Returns the colors of a template.
+ * @param name The template.
+ * @param isDark Whether the UI uses the dark theme.
+ */
+export function plotColors(name: PlotTemplateName, isDark: boolean): PlotColors {
+    const template = PLOT_TEMPLATES[name];
+    if (template.grayscale) return PRINT_COLORS;
+    return isDark && template.followsTheme ? DARK_COLORS : LIGHT_COLORS;
+}
+
+/**
+ * Converts a `#rgb`, `#rrggbb`, `rgb()` or `rgba()` color to the gray of the same lightness.
+ * Light colors are darkened to a mid gray so they stay visible on white. Other colors are returned unchanged.
+ */
+export function toGrayscale(color: string): string {
+    let channels: number[];
+    let alpha: string | undefined;
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+    const functional = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(color);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+        const value = parseInt(digits, 16);
+        channels = [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+    } else if (functional) {
+        channels = functional.slice(1, 4).map(Number);
+        alpha = functional[4];
+    } else {
+        return color;
+    }
+    const luma = 0.299 * channels[0] + 0.587 * channels[1] + 0.114 * channels[2];
+    const gray = Math.round(Math.min(luma, 160));
+    return alpha === undefined ? `rgb(${gray}, ${gray}, ${gray})` : `rgba(${gray}, ${gray}, ${gray}, ${alpha})`;
+}
+
+/**
+ * Returns a copy of a trace with its line, marker and fill colors in gray. The data arrays are shared.
+ */
+export function grayscaleTrace(trace: PlotlyTrace): PlotlyTrace {
+    return {
+        ...trace,
+        line: { ...trace.line, ...(trace.line.color ? { color: toGrayscale(trace.line.color) } : {}) },
+        ...(trace.marker ? { marker: { ...trace.marker, ...(trace.marker.color ? { color: toGrayscale(trace.marker.color) } : {}) } } : {}),
+        ...(trace.fillcolor ? { fillcolor: toGrayscale(trace.fillcolor) } : {}),
+    };
+}
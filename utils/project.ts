@@ -0,0 +1,176 @@
+import { ProjectState, AxisSettings, YAxisId } from '../types';
+import { DEFAULT_STATISTICS } from './statistics';
+import { LOCAL_TIME_ZONE } from './datetime';
+
+const PROJECT_FORMAT = 'csv-plotter-project';
+export const PROJECT_VERSION = 1;
+
+const DB_NAME = 'csv-plotter';
+const DB_STORE = 'autosave';
+// The tables are stored apart from the view so zooming or restyling doesn't rewrite all data
+const TABLES_KEY = 'tables';
+const VIEW_KEY = 'view';
+
+interface ProjectFile extends ProjectState {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string;
+    // Projects saved before the axes were configurable only stored their titles
+    xAxisTitle?: string;
+    yAxisTitle?: string;
+}
+
+// A saved session, possibly written before some settings existed
+export type SavedSession = Partial<ProjectFile> & Pick<ProjectState, 'tables' | 'columnMappings' | 'fileOrder'>;
+
+/**
+ * Returns the settings of an axis with everything on auto.
+ * @param title The axis title.
+ */
+export function defaultAxis(title = ''): AxisSettings {
+    return { title, type: 'linear', range: null, tickFormat: 'auto', reversed: false };
+}
+
+/**
+ * Returns the settings of the three Y axes with everything on auto.
+ * @param primaryTitle The title of the primary Y axis.
+ */
+export function defaultYAxes(primaryTitle = ''): Record<YAxisId, AxisSettings> {
+    return { y: defaultAxis(primaryTitle), y2: defaultAxis(), y3: defaultAxis() };
+}
+
+/**
+ * Returns true if the file looks like a saved project rather than data.
+ */
+export function isProjectFile(fileName: string): boolean {
+    return /\.json$/i.test(fileName);
+}
+
+/**
+ * Serializes a session into the text of a versioned project file.
+ */
+export function serializeProject(state: ProjectState): string {
+    const file: ProjectFile = { format: PROJECT_FORMAT, version: PROJECT_VERSION, savedAt: new Date().toISOString(), ...state };
+    return JSON.stringify(file);
+}
+
+/**
+ * Parses and validates the text of a project file.
+ * @param content The text of the project file.
+ * @returns The saved session.
+ */
+export function parseProject(content: string): ProjectState {
+    let file: Partial<ProjectFile>;
+    try {
+        file = JSON.parse(content);
+    } catch {
+        throw new Error('Not a valid JSON file');
+    }
+    if (file.format !== PROJECT_FORMAT) {
+        throw new Error('Not a CSV Plotter project file');
+    }
+    if (typeof file.version !== 'number' || file.version > PROJECT_VERSION) {
+        throw new Error(`Unsupported project version ${file.version}, please update the app`);
+    }
+    if (!file.tables || !file.columnMappings || !Array.isArray(file.fileOrder)) {
+        throw new Error('The project file is incomplete');
+    }
+
+    return withDefaults(file as SavedSession);
+}
+
+/**
+ * Fills in the settings that sessions saved by older versions, or plot configs of the render CLI, don't have.
+ */
+export function withDefaults(saved: SavedSession): ProjectState {
+    return {
+        tables: saved.tables,
+        columnMappings: saved.columnMappings,
+        fileOrder: saved.fileOrder,
+        selectedFiles: saved.selectedFiles ?? saved.fileOrder,
+        fileStyles: saved.fileStyles ?? {},
+        fileLabels: saved.fileLabels ?? {},
+        fileGroups: saved.fileGroups ?? {},
+        xAxis: { ...defaultAxis(saved.xAxisTitle), ...saved.xAxis },
+        yAxes: saved.yAxes
+            ? { y: { ...defaultAxis(), ...saved.yAxes.y }, y2: { ...defaultAxis(), ...saved.yAxes.y2 }, y3: { ...defaultAxis(), ...saved.yAxes.y3 } }
+            : defaultYAxes(saved.yAxisTitle),
+        traceAxes: saved.traceAxes ?? {},
+        layoutMode: saved.layoutMode ?? 'overlay',
+        referenceLines: saved.referenceLines ?? [],
+        limitMasks: saved.limitMasks ?? [],
+        statistics: saved.statistics ?? DEFAULT_STATISTICS,
+        traceStyles: saved.traceStyles ?? {},
+        palette: saved.palette ?? 'plotly',
+        plotTemplate: saved.plotTemplate ?? 'screen',
+        sParamView: saved.sParamView ?? 'db',
+        timeZone: saved.timeZone ?? LOCAL_TIME_ZONE,
+        zoomRange: saved.zoomRange ?? { x: null, y: null },
+        derivedDefinitions: saved.derivedDefinitions ?? [],
+        markers: saved.markers ?? [],
+        notes: saved.notes ?? [],
+        highlights: saved.highlights ?? [],
+    };
+}
+
+/**
+ * Opens the autosave database, creating it on first use.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs a single request against the autosave store.
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Stores the data tables of the current session.
+ */
+export function autosaveTables(tables: ProjectState['tables']): Promise<IDBValidKey> {
+    return withStore('readwrite', store => store.put(tables, TABLES_KEY));
+}
+
+/**
+ * Stores everything but the data tables of the current session.
+ */
+export function autosaveView(view: Omit<ProjectState, 'tables'>): Promise<IDBValidKey> {
+    return withStore('readwrite', store => store.put(view, VIEW_KEY));
+}
+
+/**
+ * Loads the last autosaved session.
+ * @returns The session, or null if nothing was saved.
+ */
+export async function loadAutosave(): Promise<ProjectState | null> {
+    const tables = await withStore<ProjectState['tables'] | undefined>('readonly', store => store.get(TABLES_KEY));
+    const view = await withStore<Omit<ProjectState, 'tables'> | undefined>('readonly', store => store.get(VIEW_KEY));
+    if (!tables || !view || view.fileOrder.length === 0) {
+        return null;
+    }
+    return withDefaults({ ...view, tables });
+}
+
+/**
+ * Removes the autosaved session.
+ */
+export function clearAutosave(): Promise<undefined> {
+    return withStore('readwrite', store => store.clear());
+}
@@ -0,0 +1,99 @@
+import { ColumnMapping, ProjectState, RawTable } from '../types';
+import { parseProject, serializeProject } from './project';
+import { mappableHeaders } from './traces';
+
+const HASH_KEY = 'view';
+// Links with embedded data longer than this are refused, as mail and chat clients cut off long links
+export const MAX_EMBEDDED_LINK_LENGTH = 32000;
+
+/**
+ * Compresses text with deflate and encodes it as URL-safe base64.
+ */
+async function compress(text: string): Promise<string> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'));
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    let binary = '';
+    // In chunks, as spreading a large array into fromCharCode overflows the stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Reverses `compress`.
+ */
+async function decompress(encoded: string): Promise<string> {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Response(stream).text();
+}
+
+/**
+ * Creates a link to the current page that reopens the view.
+ * @param state The session to share.
+ * @param includeData Embeds the data tables, so the link works without the files.
+ * @returns The link, with the view compressed into its hash.
+ */
+export async function createShareLink(state: ProjectState, includeData: boolean): Promise<string> {
+    const encoded = await compress(serializeProject(includeData ? state : { ...state, tables: {} }));
+    const link = `${window.location.origin}${window.location.pathname}${window.location.search}#${HASH_KEY}=${encoded}`;
+    if (includeData && link.length > MAX_EMBEDDED_LINK_LENGTH) {
+        throw new Error(`The data makes the link ${link.length} characters long, more than the ${MAX_EMBEDDED_LINK_LENGTH} links can safely hold. Share the link without data and send the files along.`);
+    }
+    return link;
+}
+
+/**
+ * Reads the view from the hash of a shared link.
+ * @param hash The hash of the page URL, e.g. `#view=...`.
+ * @returns The shared session, whose tables are empty unless the data was embedded, or null if the hash holds no view.
+ */
+export async function readShareLink(hash: string): Promise<ProjectState | null> {
+    const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+    if (!encoded) return null;
+    let content: string;
+    try {
+        content = await decompress(encoded);
+    } catch {
+        throw new Error('The link is damaged, it may have been cut off when it was sent');
+    }
+    return parseProject(content);
+}
+
+/**
+ * Returns the data files a shared view shows that aren't loaded yet. Derived traces are rebuilt from the files.
+ */
+export function missingSharedFiles(view: ProjectState, tables: Record<string, RawTable>): string[] {
+    const derivedNames = new Set(view.derivedDefinitions.map(definition => definition.name));
+    return view.fileOrder.filter(name => !derivedNames.has(name) && !tables[name]);
+}
+
+/**
+ * Applies a shared view to the loaded files.
+ * The column mapping of the link is used where the loaded file has those columns; files loaded besides
+ * the shared ones are listed after them, unselected.
+ * @param view The shared view.
+ * @param tables The loaded data tables.
+ * @param columnMappings The current column mappings.
+ * @returns The session to open.
+ */
+export function mergeSharedView(view: ProjectState, tables: Record<string, RawTable>, columnMappings: Record<string, ColumnMapping>): ProjectState {
+    const mappings = { ...columnMappings };
+    (Object.entries(view.columnMappings) as [string, ColumnMapping][]).forEach(([name, mapping]) => {
+        const headers = tables[name] && mappableHeaders(tables[name]);
+        if (headers && [mapping.x, ...mapping.y].every(header => headers.includes(header))) {
+            mappings[name] = mapping;
+        }
+    });
+    const otherFiles = Object.keys(tables).filter(name => !view.fileOrder.includes(name));
+    return { ...view, tables, columnMappings: mappings, fileOrder: [...view.fileOrder, ...otherFiles] };
+}
+
+/**
+ * Removes the shared view from the address bar once it was applied, so reloading the page doesn't apply it again.
+ */
+export function clearShareLinkHash(): void {
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+}
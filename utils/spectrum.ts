@@ -0,0 +1,118 @@
+import { SpectrumSettings, SpectrumWindow } from '../types';
+
+export const DEFAULT_SPECTRUM: SpectrumSettings = { output: 'magnitude', window: 'hann', averages: 1, scale: 'db' };
+const MIN_SEGMENT_LENGTH = 8; // Fewer samples per segment don't resolve any frequency worth plotting.
+
+/**
+ * Returns the coefficients of a periodic window, which keeps the spectra of segments consistent when averaged.
+ */
+function windowCoefficients(window: SpectrumWindow, length: number): number[] {
+    return Array.from({ length }, (_, n) => {
+        const phase = (2 * Math.PI * n) / length;
+        switch (window) {
+            case 'hann': return 0.5 - 0.5 * Math.cos(phase);
+            case 'hamming': return 0.54 - 0.46 * Math.cos(phase);
+            case 'blackman': return 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+            case 'rectangular': return 1;
+        }
+    });
+}
+
+/**
+ * Transforms a signal in place with an iterative radix-2 FFT.
+ * @param re The real parts; the length must be a power of two.
+ * @param im The imaginary parts, of the same length.
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+    const n = re.length;
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size;
+        const half = size >> 1;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const cos = Math.cos(angle * k);
+                const sin = Math.sin(angle * k);
+                const a = start + k;
+                const b = a + half;
+                const tre = re[b] * cos - im[b] * sin;
+                const tim = re[b] * sin + im[b] * cos;
+                re[b] = re[a] - tre;
+                im[b] = im[a] - tim;
+                re[a] += tre;
+                im[a] += tim;
+            }
+        }
+    }
+}
+
+/**
+ * Computes the single-sided spectrum of evenly spaced samples.
+ * Segments are zero-padded to a power of two. With several averages the power of half-overlapping
+ * segments is averaged, which lowers the noise of the estimate at the cost of frequency resolution.
+ * @param samples The signal, sampled at equal intervals.
+ * @param interval The spacing of the samples in X units. Frequencies are in cycles per X unit, i.e. Hz for seconds.
+ * @param settings The output, window, averaging and scale.
+ * @returns The frequencies and the amplitude (in the units of the samples) or the power spectral density
+ * (in squared units per frequency unit), in dB if requested. Bins of zero power are left out in dB.
+ */
+export function computeSpectrum(samples: number[], interval: number, settings: SpectrumSettings): { x: number[]; y: number[] } {
+    const count = samples.length;
+    const averages = Math.max(1, Math.floor(settings.averages));
+    // K segments that overlap by half cover (K + 1) / 2 segment lengths
+    const segmentLength = averages === 1 ? count : Math.floor((2 * count) / (averages + 1));
+    if (count < MIN_SEGMENT_LENGTH) {
+        throw new Error(`A spectrum needs at least ${MIN_SEGMENT_LENGTH} points`);
+    }
+    if (segmentLength < MIN_SEGMENT_LENGTH) {
+        throw new Error(`${averages} averages leave too few points per segment, use at most ${Math.floor((2 * count) / MIN_SEGMENT_LENGTH) - 1}`);
+    }
+    const step = averages === 1 ? 0 : Math.floor((count - segmentLength) / (averages - 1));
+
+    let fftLength = 1;
+    while (fftLength < segmentLength) fftLength <<= 1;
+    const window = windowCoefficients(settings.window, segmentLength);
+    const windowSum = window.reduce((sum, value) => sum + value, 0);
+    const windowPower = window.reduce((sum, value) => sum + value * value, 0);
+
+    const binCount = fftLength / 2 + 1;
+    const power = new Float64Array(binCount);
+    for (let segment = 0; segment < averages; segment++) {
+        const start = segment * step;
+        const re = new Float64Array(fftLength);
+        const im = new Float64Array(fftLength);
+        for (let n = 0; n < segmentLength; n++) {
+            re[n] = samples[start + n] * window[n];
+        }
+        fft(re, im);
+        for (let k = 0; k < binCount; k++) {
+            power[k] += (re[k] * re[k] + im[k] * im[k]) / averages;
+        }
+    }
+
+    const sampleRate = 1 / interval;
+    const x: number[] = [];
+    const y: number[] = [];
+    for (let k = 0; k < binCount; k++) {
+        // The negative frequencies are folded onto the positive ones; DC and Nyquist have no mirror
+        const sides = k === 0 || k === fftLength / 2 ? 1 : 2;
+        const value = settings.output === 'psd'
+            ? (power[k] * sides) / (sampleRate * windowPower)
+            : (Math.sqrt(power[k]) * sides) / windowSum;
+        const scaled = settings.scale === 'linear' ? value : (settings.output === 'psd' ? 10 : 20) * Math.log10(value);
+        if (Number.isFinite(scaled)) {
+            x.push((k * sampleRate) / fftLength);
+            y.push(scaled);
+        }
+    }
+    return { x, y };
+}
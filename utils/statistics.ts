@@ -0,0 +1,186 @@
+import { ColorPalette, EnvelopeBand, PlotlyTrace, StatisticsSettings } from '../types';
+import { Series, interpolateAt, traceSeries } from './derived';
+import { seriesToTrace } from './traces';
+import { paletteColor } from './traceStyles';
+
+// The name the statistics traces are filed under, in place of a file name
+export const STATISTICS_NAME = 'Statistics';
+
+export const DEFAULT_STATISTICS: StatisticsSettings = { enabled: false, band: 'minmax', showMedian: false };
+
+export const ENVELOPE_BANDS: { value: EnvelopeBand; label: string }[] = [
+    { value: 'minmax', label: 'Min to max' },
+    { value: 'std', label: 'Mean ± 1 std. dev.' },
+    { value: 'p5-p95', label: '5th to 95th percentile' },
+    { value: 'p10-p90', label: '10th to 90th percentile' },
+    { value: 'p25-p75', label: 'Interquartile (25th to 75th)' },
+];
+
+export interface TraceSummary {
+    min: number;
+    max: number;
+    mean: number;
+    rms: number;
+    // The X position of the maximum
+    xAtPeak: number;
+}
+
+// Per-X statistics of several series on a common X grid
+export interface Envelope {
+    x: number[];
+    mean: number[];
+    median: number[];
+    std: number[];
+    min: number[];
+    max: number[];
+    percentile: (p: number) => number[];
+}
+
+/**
+ * Summarizes the Y values of a series.
+ */
+export function summarizeSeries(series: Series): TraceSummary {
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    let sumOfSquares = 0;
+    let count = 0;
+    let xAtPeak = NaN;
+    series.y.forEach((y, i) => {
+        if (!Number.isFinite(y)) return;
+        if (y > max) {
+            max = y;
+            xAtPeak = series.x[i];
+        }
+        min = Math.min(min, y);
+        sum += y;
+        sumOfSquares += y * y;
+        count++;
+    });
+    return count === 0
+        ? { min: NaN, max: NaN, mean: NaN, rms: NaN, xAtPeak: NaN }
+        : { min, max, mean: sum / count, rms: Math.sqrt(sumOfSquares / count), xAtPeak };
+}
+
+/**
+ * Returns a percentile of sorted values, interpolating between neighbours.
+ */
+function percentileOf(sorted: number[], p: number): number {
+    if (sorted.length === 0) return NaN;
+    const position = (sorted.length - 1) * p / 100;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Aligns series on a common X grid and computes their statistics at every X.
+ * The grid is the X values of the first series within the range all series cover.
+ * @param seriesList The series to combine.
+ * @returns The envelope, or null if the series don't overlap.
+ */
+export function computeEnvelope(seriesList: Series[]): Envelope | null {
+    if (seriesList.length === 0) return null;
+    let start = -Infinity;
+    let end = Infinity;
+    seriesList.forEach(series => {
+        // Reduced rather than spread into Math.min, which overflows the stack for long series
+        const xs = series.x.filter(Number.isFinite);
+        start = Math.max(start, xs.reduce((min, x) => Math.min(min, x), Infinity));
+        end = Math.min(end, xs.reduce((max, x) => Math.max(max, x), -Infinity));
+    });
+    const grid = [...new Set(seriesList[0].x.filter(x => x >= start && x <= end))].sort((a, b) => a - b);
+    if (grid.length < 2) return null;
+
+    const aligned = seriesList.map(series => interpolateAt(series, grid));
+    const sortedColumns = grid.map((_, i) => aligned.map(values => values[i]).filter(Number.isFinite).sort((a, b) => a - b));
+    const mean = sortedColumns.map(column => column.reduce((sum, value) => sum + value, 0) / column.length);
+    return {
+        x: grid,
+        mean,
+        median: sortedColumns.map(column => percentileOf(column, 50)),
+        std: sortedColumns.map((column, i) => Math.sqrt(column.reduce((sum, value) => sum + (value - mean[i]) ** 2, 0) / column.length)),
+        min: sortedColumns.map(column => column[0] ?? NaN),
+        max: sortedColumns.map(column => column[column.length - 1] ?? NaN),
+        percentile: (p: number) => sortedColumns.map(column => percentileOf(column, p)),
+    };
+}
+
+/**
+ * Returns the lower and upper edge of an envelope band.
+ */
+function bandEdges(envelope: Envelope, band: EnvelopeBand): [number[], number[]] {
+    switch (band) {
+        case 'minmax':
+            return [envelope.min, envelope.max];
+        case 'std':
+            return [envelope.mean.map((m, i) => m - envelope.std[i]), envelope.mean.map((m, i) => m + envelope.std[i])];
+        default: {
+            const [low, high] = band.split('-').map(edge => Number(edge.slice(1)));
+            return [envelope.percentile(low), envelope.percentile(high)];
+        }
+    }
+}
+
+/**
+ * Converts a `#rrggbb` color to a translucent `rgba()` color.
+ */
+function translucent(color: string, alpha: number): string {
+    const value = parseInt(color.slice(1), 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+/**
+ * Builds the statistics view of the selected files: for every Y column they share, a mean line
+ * with a shaded envelope and optionally the median.
+ * @param files The traces of each selected file.
+ * @param settings The statistics settings.
+ * @param palette The palette the envelopes are colored from.
+ * @returns The traces, lower edge before upper edge so the upper edge can fill down to it.
+ */
+export function buildStatisticsTraces(files: PlotlyTrace[][], settings: StatisticsSettings, palette: ColorPalette): PlotlyTrace[] {
+    // Traces are matched across files by the column they were read from
+    const groups = new Map<string, PlotlyTrace[]>();
+    files.forEach(traces => traces.forEach(trace => {
+        if ((trace.type ?? 'scatter') !== 'scatter') return;
+        groups.set(trace._headers.y, [...(groups.get(trace._headers.y) ?? []), trace]);
+    }));
+
+    const traces: PlotlyTrace[] = [];
+    let groupIndex = 0;
+    groups.forEach((members, yHeader) => {
+        const envelope = computeEnvelope(members.map(traceSeries));
+        if (!envelope) return;
+        const color = paletteColor(palette, groupIndex++);
+        const xHeader = members[0]._headers.x;
+        const [lower, upper] = bandEdges(envelope, settings.band);
+        const bandLabel = ENVELOPE_BANDS.find(band => band.value === settings.band)!.label;
+
+        // The envelope has the X values of its members, so it keeps their type
+        const envelopeTrace = (name: string, y: number[], header: string): PlotlyTrace =>
+            ({ ...seriesToTrace(name, envelope.x, y, { x: xHeader, y: header }), _xType: members[0]._xType });
+
+        const lowerTrace = envelopeTrace(`${yHeader} ${bandLabel} (lower)`, lower, `${yHeader} lower`);
+        const upperTrace = envelopeTrace(`${yHeader} ${bandLabel} (upper)`, upper, `${yHeader} upper`);
+        [lowerTrace, upperTrace].forEach(trace => {
+            trace.line = { width: 0, color };
+            trace.legendgroup = yHeader;
+            trace.showlegend = false;
+        });
+        upperTrace.fill = 'tonexty';
+        upperTrace.fillcolor = translucent(color, 0.2);
+
+        const meanTrace = envelopeTrace(`${yHeader} mean (${members.length} traces)`, envelope.mean, `${yHeader} mean`);
+        meanTrace.line = { width: 2.5, color };
+        meanTrace.legendgroup = yHeader;
+        traces.push(lowerTrace, upperTrace, meanTrace);
+
+        if (settings.showMedian) {
+            const medianTrace = envelopeTrace(`${yHeader} median`, envelope.median, `${yHeader} median`);
+            medianTrace.line = { width: 2, color, dash: 'dot' };
+            medianTrace.legendgroup = yHeader;
+            traces.push(medianTrace);
+        }
+    });
+    return traces;
+}
@@ -0,0 +1,223 @@
+import Papa from 'papaparse';
+import { CellValue, RawTable } from '../types';
+
+export const STREAM_FLUSH_INTERVAL = 250; // Milliseconds between applying received rows to the plot.
+export const DEFAULT_STREAM_WINDOW = 2000; // Rows kept per stream unless the user picks another window.
+
+// Where rows come from: messages of a WebSocket, or the lines appended to a file that is fetched repeatedly
+export interface StreamSettings {
+    kind: 'websocket' | 'poll';
+    url: string;
+    // Seconds between fetches of a polled file
+    pollSeconds: number;
+    // Rows kept; older rows are dropped as new ones arrive. 0 keeps every row.
+    windowSize: number;
+}
+
+export type StreamStatus = 'connecting' | 'live' | 'closed' | 'error';
+
+// A connected stream and how its rows are shown
+export interface LiveStream {
+    settings: StreamSettings;
+    status: StreamStatus;
+    // Why the stream failed or closed
+    message?: string;
+    // Received rows are held back while paused and shown on resume, up to the window size
+    paused: boolean;
+    // Moves a zoomed X range along so the newest rows stay in view
+    autoScroll: boolean;
+    // Rows received since connecting
+    received: number;
+}
+
+// Rows received from a stream, in the column order of `headers`
+export interface StreamBatch {
+    headers: string[];
+    rows: CellValue[][];
+}
+
+// Splits CSV text into rows. The first line ever received is the header row.
+interface CsvLineReader {
+    headers: string[] | null;
+    delimiter: string;
+    // The end of the last chunk, when it stopped mid-line
+    partialLine: string;
+}
+
+/**
+ * Parses the complete lines of a chunk of CSV text, keeping a trailing partial line for the next chunk.
+ * @returns The rows of the chunk; empty until the header row has arrived.
+ */
+function readCsvLines(reader: CsvLineReader, chunk: string): StreamBatch | null {
+    const lines = (reader.partialLine + chunk).split(/\r?\n/);
+    reader.partialLine = lines.pop() ?? '';
+    const text = lines.filter(line => line.trim() !== '').join('\n');
+    if (text === '') return null;
+    const result = Papa.parse<CellValue[]>(text, { dynamicTyping: true, skipEmptyLines: true, delimiter: reader.delimiter });
+    // The delimiter guessed from the header row is kept, single data lines are too short to guess from
+    reader.delimiter = reader.delimiter || result.meta.delimiter;
+    const rows = result.data;
+    if (!reader.headers) {
+        reader.headers = (rows.shift() ?? []).map(String);
+    }
+    return rows.length > 0 ? { headers: reader.headers, rows } : null;
+}
+
+/**
+ * Parses one WebSocket message: a JSON object per row keyed by column name, an array of such objects, or CSV lines.
+ * @param message The text of the message.
+ * @param reader The state of the CSV lines received so far.
+ * @returns The rows of the message, or null if it holds none.
+ */
+function parseMessage(message: string, reader: CsvLineReader): StreamBatch | null {
+    const trimmed = message.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        const parsed = JSON.parse(trimmed);
+        const objects: Record<string, CellValue>[] = Array.isArray(parsed) ? parsed : [parsed];
+        if (objects.length === 0) return null;
+        const headers = Object.keys(objects[0]);
+        return { headers, rows: objects.map(object => headers.map(header => object[header] ?? null)) };
+    }
+    // A message is a set of complete lines
+    return readCsvLines(reader, trimmed + '\n');
+}
+
+/**
+ * Connects to a streaming source.
+ * @param settings The source.
+ * @param onRows Called with every batch of received rows.
+ * @param onStatus Called when the connection opens, closes or fails, with an error message for failures.
+ * @returns A function that closes the connection.
+ */
+export function openStream(
+    settings: StreamSettings,
+    onRows: (batch: StreamBatch) => void,
+    onStatus: (status: StreamStatus, message?: string) => void
+): { close: () => void } {
+    const reader: CsvLineReader = { headers: null, delimiter: '', partialLine: '' };
+    onStatus('connecting');
+
+    if (settings.kind === 'websocket') {
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(settings.url);
+        } catch (err) {
+            onStatus('error', (err as Error).message);
+            return { close: () => {} };
+        }
+        let closedByUser = false;
+        let failed = false;
+        socket.onopen = () => onStatus('live');
+        socket.onmessage = (event: MessageEvent) => {
+            try {
+                const batch = parseMessage(String(event.data), reader);
+                if (batch) onRows(batch);
+            } catch (err) {
+                onStatus('error', `Unreadable message: ${(err as Error).message}`);
+            }
+        };
+        socket.onerror = () => {
+            failed = true;
+            onStatus('error', `Could not connect to ${settings.url}`);
+        };
+        // A failed connection closes too; its error stays on display
+        socket.onclose = () => {
+            if (!failed) onStatus('closed', closedByUser ? undefined : 'The server closed the connection');
+        };
+        return {
+            close: () => {
+                closedByUser = true;
+                socket.close();
+            },
+        };
+    }
+
+    // Polling fetches only the bytes added since the last fetch where the server supports ranges
+    let offset = 0;
+    let stopped = false;
+    // Streaming decode, as a fetch may end in the middle of a multi-byte character
+    let decoder = new TextDecoder();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+        try {
+            const response = await fetch(settings.url, { cache: 'no-store', headers: offset > 0 ? { Range: `bytes=${offset}-` } : {} });
+            if (stopped) return;
+            if (response.status === 416) {
+                // Nothing was appended since the last fetch
+            } else if (!response.ok) {
+                throw new Error(`${settings.url} answered ${response.status} ${response.statusText}`.trim());
+            } else {
+                const bytes = new Uint8Array(await response.arrayBuffer());
+                let added = bytes;
+                if (response.status !== 206) {
+                    // The whole file came back. If it shrank, it was replaced and is read from the start.
+                    if (bytes.length < offset) {
+                        reader.headers = null;
+                        reader.partialLine = '';
+                        decoder = new TextDecoder();
+                        offset = 0;
+                    }
+                    added = bytes.subarray(offset);
+                }
+                offset += added.length;
+                const batch = readCsvLines(reader, decoder.decode(added, { stream: true }));
+                if (batch) onRows(batch);
+                onStatus('live');
+            }
+        } catch (err) {
+            if (!stopped) onStatus('error', (err as Error).message);
+        }
+        if (!stopped) timer = setTimeout(poll, settings.pollSeconds * 1000);
+    };
+    poll();
+    return {
+        close: () => {
+            stopped = true;
+            clearTimeout(timer);
+            onStatus('closed');
+        },
+    };
+}
+
+/**
+ * Appends rows to a table, dropping the oldest rows beyond the window.
+ * Columns that appear later in the stream are filled with nulls for the earlier rows, and columns
+ * the stream doesn't send with nulls for the new rows.
+ * @param table The table so far, if any.
+ * @param batch The new rows.
+ * @param windowSize The number of rows to keep, 0 for all.
+ * @returns A new table; the input is not changed.
+ */
+export function appendRows(table: RawTable | undefined, batch: StreamBatch, windowSize: number): RawTable {
+    const headers = [...(table?.headers ?? [])];
+    batch.headers.forEach(header => { if (!headers.includes(header)) headers.push(header); });
+    const previousCount = table?.rowCount ?? 0;
+    const total = previousCount + batch.rows.length;
+    const start = windowSize > 0 ? Math.max(0, total - windowSize) : 0;
+
+    const columns: Record<string, CellValue[]> = {};
+    headers.forEach(header => {
+        const index = batch.headers.indexOf(header);
+        const previous = table?.columns[header] ?? new Array<CellValue>(previousCount).fill(null);
+        const added = batch.rows.map(row => (index >= 0 ? row[index] ?? null : null));
+        columns[header] = [...previous, ...added].slice(start);
+    });
+    return { ...table, headers, columns, rowCount: total - start };
+}
+
+/**
+ * Drops the oldest batches held back while a stream is paused once the newer ones fill the window.
+ * @param batches The held-back batches, oldest first.
+ * @param windowSize The number of rows kept, 0 for all.
+ * @returns The batches still needed.
+ */
+export function trimBatches(batches: StreamBatch[], windowSize: number): StreamBatch[] {
+    if (windowSize <= 0) return batches;
+    let rowCount = batches.reduce((count, batch) => count + batch.rows.length, 0);
+    let first = 0;
+    while (first < batches.length - 1 && rowCount - batches[first].rows.length >= windowSize) {
+        rowCount -= batches[first].rows.length;
+        first++;
+    }
+    return batches.slice(first);
+}
@@ -0,0 +1,54 @@
+import { Theme } from '../types';
+
+// The theme is a preference of the browser, not of a project, so it is kept apart from the autosave
+const THEME_STORAGE_KEY = 'csv-plotter-theme';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Returns the theme picked in this browser, or 'system' if none was.
+ */
+export function loadTheme(): Theme {
+    try {
+        const stored = localStorage.getItem(THEME_STORAGE_KEY);
+        return stored === 'light' || stored === 'dark' ? stored : 'system';
+    } catch {
+        return 'system'; // Storage can be blocked, e.g. in private windows
+    }
+}
+
+export function saveTheme(theme: Theme): void {
+    try {
+        if (theme === 'system') {
+            localStorage.removeItem(THEME_STORAGE_KEY);
+        } else {
+            localStorage.setItem(THEME_STORAGE_KEY, theme);
+        }
+    } catch {
+        // The theme then only lasts for this session
+    }
+}
+
+/**
+ * Works out whether a theme is dark, asking the operating system for 'system'.
+ */
+export function isDarkTheme(theme: Theme): boolean {
+    return theme === 'dark' || (theme === 'system' && window.matchMedia(DARK_QUERY).matches);
+}
+
+/**
+ * Calls back when the operating system switches between light and dark.
+ * @returns A function that stops listening.
+ */
+export function watchSystemTheme(onChange: () => void): () => void {
+    const query = window.matchMedia(DARK_QUERY);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+}
+
+/**
+ * Switches the page between the light and dark styles in index.html.
+ */
+export function applyTheme(isDark: boolean): void {
+    document.documentElement.classList.toggle('dark', isDark);
+    document.documentElement.style.colorScheme = isDark ? 'dark' : 'light';
+}
@@ -0,0 +1,242 @@
+import { RawTable, SParameterView } from '../types';
+
+const FREQUENCY_MULTIPLIERS: Record<string, number> = { HZ: 1, KHZ: 1e3, MHZ: 1e6, GHZ: 1e9 };
+const DISPLAY_UNITS: Record<string, string> = { HZ: 'Hz', KHZ: 'kHz', MHZ: 'MHz', GHZ: 'GHz' };
+
+/**
+ * Returns true if the file name has a Touchstone extension (.s1p, .s2p, ... .sNp).
+ */
+export function isTouchstoneFile(fileName: string): boolean {
+    return /\.s\d+p$/i.test(fileName);
+}
+
+/**
+ * Parses the contents of a Touchstone (v1 or v2) file into a raw table.
+ *
+ * The table has the frequency column (in the unit of the option line) followed by
+ * a real and an imaginary column per network parameter, e.g. `S21 re` and `S21 im`.
+ * The parameter names are listed in `table.touchstone.parameters` in the order
+ * they should be offered to the user (S11, S12, ..., SNN).
+ * @param content The text content of the file.
+ * @param fileName The file name, used to infer the port count of v1 files.
+ * @returns The parsed table.
+ */
+export function parseTouchstone(content: string, fileName: string): RawTable {
+    let frequencyUnit = 'GHZ';
+    let parameterType = 'S';
+    let format = 'MA';
+    let referenceImpedance = 50;
+    let optionLineSeen = false;
+
+    const portMatch = fileName.match(/\.s(\d+)p$/i);
+    let ports = portMatch ? parseInt(portMatch[1], 10) : 0;
+    // v2 two-port files say whether S21 comes before S12, v1 files always list S21 first
+    let twoPortOrder = '21_12';
+    // v2 files may list only the lower or upper triangle of a symmetric matrix
+    let matrixFormat = 'full';
+    // Port impedances of a v2 [Reference] keyword still to be read, which may continue on the following lines
+    let pendingReferences = 0;
+    const numbers: number[] = [];
+
+    // Reads impedances of the [Reference] keyword; the first port's becomes the reference impedance of the table
+    const readReferences = (text: string) => {
+        const values = text.split(/\s+/).filter(Boolean).map(Number);
+        if (values.some(Number.isNaN)) {
+            throw new Error(`Invalid [Reference] impedance in "${text}"`);
+        }
+        if (pendingReferences === ports && values.length > 0) {
+            referenceImpedance = values[0];
+        }
+        pendingReferences = Math.max(0, pendingReferences - values.length);
+    };
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.split('!')[0].trim();
+        if (!line) continue;
+
+        if (line.startsWith('#')) {
+            // Only the first option line is significant, later ones are ignored per the spec.
+            if (optionLineSeen) continue;
+            optionLineSeen = true;
+            const tokens = line.slice(1).trim().toUpperCase().split(/\s+/).filter(Boolean);
+            for (let i = 0; i < tokens.length; i++) {
+                const token = tokens[i];
+                if (token in FREQUENCY_MULTIPLIERS) {
+                    frequencyUnit = token;
+                } else if (['S', 'Y', 'Z', 'H', 'G'].includes(token)) {
+                    parameterType = token;
+                } else if (['RI', 'MA', 'DB'].includes(token)) {
+                    format = token;
+                } else if (token === 'R' && i + 1 < tokens.length) {
+                    referenceImpedance = Number(tokens[++i]);
+                }
+            }
+            continue;
+        }
+
+        if (line.startsWith('[')) {
+            // Touchstone v2 keywords. The port count, the two-port data order, the matrix format and the reference impedances matter for parsing.
+            pendingReferences = 0;
+            const keywordMatch = line.match(/^\[([^\]]+)\]\s*(.*)$/);
+            const keyword = keywordMatch ? keywordMatch[1].trim().toLowerCase() : '';
+            const value = keywordMatch ? keywordMatch[2].trim() : '';
+            if (keyword === 'number of ports') {
+                ports = parseInt(value, 10);
+            } else if (keyword === 'two-port data order') {
+                if (!['12_21', '21_12'].includes(value)) {
+                    throw new Error(`Invalid [Two-Port Data Order] "${value}", expected 12_21 or 21_12`);
+                }
+                twoPortOrder = value;
+            } else if (keyword === 'matrix format') {
+                matrixFormat = value.toLowerCase();
+                if (!['full', 'lower', 'upper'].includes(matrixFormat)) {
+                    throw new Error(`Invalid [Matrix Format] "${value}", expected Full, Lower or Upper`);
+                }
+            } else if (keyword === 'reference') {
+                pendingReferences = ports;
+                readReferences(value);
+            }
+            continue;
+        }
+
+        if (pendingReferences > 0) {
+            readReferences(line);
+            continue;
+        }
+
+        for (const token of line.split(/\s+/)) {
+            const value = Number(token);
+            if (Number.isNaN(value)) {
+                throw new Error(`Invalid number "${token}" in Touchstone data`);
+            }
+            numbers.push(value);
+        }
+    }
+
+    if (!ports) {
+        throw new Error('Could not determine the number of ports');
+    }
+
+    const frequencies: number[] = [];
+    const parameterNames: string[] = [];
+    const matrixNames: string[] = [];
+    // The parameters a triangular matrix leaves out, with the listed ones they equal
+    const mirrored: [string, string][] = [];
+    for (let row = 1; row <= ports; row++) {
+        for (let col = 1; col <= ports; col++) {
+            parameterNames.push(`${parameterType}${row}${col}`);
+        }
+    }
+    // Lower and Upper matrices list their triangle row by row, including the diagonal. Full two-port matrices are
+    // column-major (S11 S21 S12 S22) unless a v2 file declares 12_21; every other size is row-major.
+    if (matrixFormat !== 'full') {
+        for (let row = 1; row <= ports; row++) {
+            for (let col = 1; col <= ports; col++) {
+                if (matrixFormat === 'lower' ? col <= row : col >= row) {
+                    matrixNames.push(`${parameterType}${row}${col}`);
+                } else {
+                    mirrored.push([`${parameterType}${row}${col}`, `${parameterType}${col}${row}`]);
+                }
+            }
+        }
+    } else if (ports === 2) {
+        const [first, second] = twoPortOrder === '12_21' ? ['12', '21'] : ['21', '12'];
+        matrixNames.push(`${parameterType}11`, `${parameterType}${first}`, `${parameterType}${second}`, `${parameterType}22`);
+    } else {
+        matrixNames.push(...parameterNames);
+    }
+
+    const valuesPerPoint = 1 + 2 * matrixNames.length;
+    const re: Record<string, number[]> = {};
+    const im: Record<string, number[]> = {};
+    parameterNames.forEach(name => {
+        re[name] = [];
+        im[name] = [];
+    });
+
+    for (let offset = 0; offset + valuesPerPoint <= numbers.length; offset += valuesPerPoint) {
+        const frequency = numbers[offset];
+        // Two-port files may append a noise parameter block, which starts when the frequency stops increasing.
+        if (frequencies.length > 0 && frequency <= frequencies[frequencies.length - 1]) {
+            break;
+        }
+        frequencies.push(frequency);
+
+        matrixNames.forEach((name, index) => {
+            const a = numbers[offset + 1 + 2 * index];
+            const b = numbers[offset + 2 + 2 * index];
+            let real: number;
+            let imag: number;
+            if (format === 'RI') {
+                real = a;
+                imag = b;
+            } else {
+                const magnitude = format === 'DB' ? Math.pow(10, a / 20) : a;
+                const angle = (b * Math.PI) / 180;
+                real = magnitude * Math.cos(angle);
+                imag = magnitude * Math.sin(angle);
+            }
+            re[name].push(real);
+            im[name].push(imag);
+        });
+    }
+
+    if (frequencies.length === 0) {
+        throw new Error('No network data found');
+    }
+    mirrored.forEach(([name, listed]) => {
+        re[name] = re[listed];
+        im[name] = im[listed];
+    });
+
+    const frequencyHeader = `Frequency (${DISPLAY_UNITS[frequencyUnit]})`;
+    const headers = [frequencyHeader];
+    const columns: RawTable['columns'] = { [frequencyHeader]: frequencies };
+    parameterNames.forEach(name => {
+        headers.push(`${name} re`, `${name} im`);
+        columns[`${name} re`] = re[name];
+        columns[`${name} im`] = im[name];
+    });
+
+    return {
+        headers,
+        columns,
+        rowCount: frequencies.length,
+        touchstone: {
+            ports,
+            parameterType,
+            referenceImpedance,
+            frequencyHeader,
+            parameters: parameterNames,
+        },
+    };
+}
+
+/**
+ * Computes the magnitude in dB or the phase in degrees of one network parameter.
+ * @param table A table produced by `parseTouchstone`.
+ * @param parameter The parameter name, e.g. `S21`.
+ * @param view Whether to return magnitude (dB) or phase (degrees).
+ * @returns One value per frequency point.
+ */
+export function parameterValues(table: RawTable, parameter: string, view: Extract<SParameterView, 'db' | 'phase'>): number[] {
+    const re = table.columns[`${parameter} re`] as number[];
+    const im = table.columns[`${parameter} im`] as number[];
+    return re.map((real, i) => view === 'db'
+        ? 20 * Math.log10(Math.hypot(real, im[i]))
+        : (Math.atan2(im[i], real) * 180) / Math.PI);
+}
+
+/**
+ * Converts a reflection coefficient to the normalized impedance expected by Plotly's Smith chart.
+ * @param real The real part of the reflection coefficient.
+ * @param imag The imaginary part of the reflection coefficient.
+ * @returns The normalized impedance z = (1 + Γ) / (1 − Γ).
+ */
+export function reflectionToImpedance(real: number, imag: number): { re: number; im: number } {
+    const denominator = (1 - real) * (1 - real) + imag * imag;
+    return {
+        re: (1 - real * real - imag * imag) / denominator,
+        im: (2 * imag) / denominator,
+    };
+}
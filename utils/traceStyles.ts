@@ -0,0 +1,71 @@
+import { ColorPalette, MarkerSymbol, PlotlyTrace, TraceStyle } from '../types';
+
+export const PALETTES: Record<ColorPalette, { label: string; colors: string[] }> = {
+    'plotly': {
+        label: 'Plotly',
+        colors: ['#636efa', '#ef553b', '#00cc96', '#ab63fa', '#ffa15a', '#19d3f3', '#ff6692', '#b6e880', '#ff97ff', '#fecb52'],
+    },
+    // Okabe & Ito, distinguishable with the common forms of color blindness
+    'okabe-ito': {
+        label: 'Okabe-Ito (color-blind safe)',
+        colors: ['#0072b2', '#e69f00', '#009e73', '#d55e00', '#cc79a7', '#56b4e9', '#f0e442', '#000000'],
+    },
+    // Paul Tol's bright scheme, also color-blind safe
+    'tol-bright': {
+        label: 'Tol Bright (color-blind safe)',
+        colors: ['#4477aa', '#ee6677', '#228833', '#ccbb44', '#66ccee', '#aa3377', '#bbbbbb'],
+    },
+    'tableau': {
+        label: 'Tableau 10',
+        colors: ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'],
+    },
+};
+
+// The dash styles files are drawn with, handed out in turn as files are loaded
+export const LINE_STYLES = ['solid', 'dash', 'dot', 'dashdot', 'longdash', 'longdashdot'];
+
+export const MARKER_SYMBOLS: MarkerSymbol[] = ['circle', 'square', 'diamond', 'triangle-up', 'x', 'cross'];
+
+/**
+ * Returns the default color of a trace.
+ * @param palette The active palette.
+ * @param index The position of the trace among all loaded traces, so it doesn't change with the selection.
+ */
+export function paletteColor(palette: ColorPalette, index: number): string {
+    const colors = PALETTES[palette].colors;
+    return colors[index % colors.length];
+}
+
+/**
+ * Applies the user's style to a copy of a trace.
+ * @param trace The trace with the default styling.
+ * @param style The user's overrides, if any.
+ * @param defaultColor The palette color used when no color was picked.
+ * @returns The styled trace. The data arrays are shared with the input.
+ */
+export function applyTraceStyle(trace: PlotlyTrace, style: TraceStyle | undefined, defaultColor: string): PlotlyTrace {
+    // Traces that come with a color, such as the statistics envelopes, keep it unless the user picks another
+    const color = style?.color ?? trace.line.color ?? defaultColor;
+    const mode = style?.mode ?? trace.mode;
+    const styled: PlotlyTrace = {
+        ...trace,
+        name: style?.displayName || trace.name,
+        mode,
+        line: {
+            ...trace.line,
+            color,
+            ...(style?.width !== undefined ? { width: style.width } : {}),
+            ...(style?.dash ? { dash: style.dash } : {}),
+        },
+        opacity: style?.opacity ?? 1,
+        visible: style?.hidden ? 'legendonly' : true,
+    };
+    if (mode !== 'lines') {
+        styled.marker = { color, symbol: style?.markerSymbol ?? 'circle', size: style?.markerSize ?? 6 };
+    }
+    // Area fills only make sense against a cartesian Y axis
+    if ((trace.type ?? 'scatter') === 'scatter' && style?.fill && style.fill !== 'none') {
+        styled.fill = style.fill;
+    }
+    return styled;
+}
@@ -0,0 +1,258 @@
+import { PlotlyTrace, RawTable, ColumnMapping, CellValue, SParameterView } from '../types';
+import { parameterValues, reflectionToImpedance } from './touchstone';
+import { parseTimestamp, resolveXFormat, LOCAL_TIME_ZONE } from './datetime';
+
+export const DOWNSAMPLING_THRESHOLD = 5000; // Files with more points than this will be downsampled.
+export const DOWNSAMPLED_POINT_COUNT = 1000; // The target number of points after downsampling.
+
+/**
+ * Implements the Largest-Triangle-Three-Buckets (LTTB) downsampling algorithm.
+ * This is used to reduce the number of data points for visualization while preserving
+ * the visual characteristics of the data.
+ * @param data An array of data points, where each point is an object with 'x' and 'y' properties.
+ * @param threshold The target number of data points to downsample to.
+ * @returns A new array of downsampled data points.
+ */
+export function largestTriangleThreeBuckets(data: { x: number; y: number }[], threshold: number): { x: number; y: number }[] {
+    const dataLength = data.length;
+    if (threshold >= dataLength || threshold === 0) {
+        return data; // Nothing to do
+    }
+
+    const sampled: { x: number; y: number }[] = [];
+    let sampledIndex = 0;
+
+    // Bucket size. Leave room for start and end data points
+    const every = (dataLength - 2) / (threshold - 2);
+
+    let a = 0; // Initially a is the first point in the triangle
+    let maxAreaPoint;
+    let maxArea;
+    let area;
+    let nextA;
+
+    sampled[sampledIndex++] = data[a]; // Always add the first point
+
+    for (let i = 0; i < threshold - 2; i++) {
+        // Calculate the average point for the next bucket
+        let avgX = 0;
+        let avgY = 0;
+        let avgRangeStart = Math.floor((i + 1) * every) + 1;
+        const avgRangeEnd = Math.min(Math.floor((i + 2) * every) + 1, dataLength);
+        const avgRangeLength = avgRangeEnd - avgRangeStart;
+
+        for (; avgRangeStart < avgRangeEnd; avgRangeStart++) {
+            avgX += data[avgRangeStart].x;
+            avgY += data[avgRangeStart].y;
+        }
+        avgX /= avgRangeLength;
+        avgY /= avgRangeLength;
+
+        // Get the range for this bucket
+        let rangeOffs = Math.floor(i * every) + 1;
+        const rangeTo = Math.floor((i + 1) * every) + 1;
+
+        // Point a
+        const pointAX = data[a].x;
+        const pointAY = data[a].y;
+
+        maxArea = area = -1;
+
+        for (; rangeOffs < rangeTo; rangeOffs++) {
+            // Calculate triangle area over three buckets
+            area = Math.abs((pointAX - avgX) * (data[rangeOffs].y - pointAY) - (pointAX - data[rangeOffs].x) * (avgY - pointAY)) * 0.5;
+            if (area > maxArea) {
+                maxArea = area;
+                maxAreaPoint = data[rangeOffs];
+                nextA = rangeOffs; // Next a is this highest area point
+            }
+        }
+
+        if (maxAreaPoint) {
+            sampled[sampledIndex++] = maxAreaPoint; // Pick this point from the bucket
+            a = nextA as number; // This becomes the next point a
+        }
+    }
+
+    sampled[sampledIndex++] = data[dataLength - 1]; // Always add last point
+
+    return sampled;
+}
+
+/**
+ * Returns the key that identifies a trace across files: the file name and the Y header.
+ */
+export function traceKey(fileName: string, yHeader: string): string {
+    return `${fileName}::${yHeader}`;
+}
+
+/**
+ * Returns the names a column mapping of a table can refer to. A Touchstone table is mapped by its
+ * frequency and parameter names, such as "S11", rather than by the columns the values are stored in.
+ */
+export function mappableHeaders(table: RawTable): string[] {
+    return table.touchstone ? [table.touchstone.frequencyHeader, ...table.touchstone.parameters] : table.headers;
+}
+
+/**
+ * Builds a line trace from a numeric series, downsampling it if it is large.
+ * The full-resolution series is kept in `_full` when downsampled.
+ * @param name The trace name.
+ * @param x The X values.
+ * @param y The Y values.
+ * @param headers The headers recorded in `_headers`.
+ * @returns The trace.
+ */
+export function seriesToTrace(name: string, x: number[], y: number[], headers: PlotlyTrace['_headers']): PlotlyTrace {
+    const trace: PlotlyTrace = { x, y, mode: 'lines', name, line: { width: 2 }, _headers: headers };
+    if (x.length > DOWNSAMPLING_THRESHOLD) {
+        const sampled = largestTriangleThreeBuckets(x.map((value, i) => ({ x: value, y: y[i] })), DOWNSAMPLED_POINT_COUNT);
+        trace._full = { x, y };
+        trace.x = sampled.map(p => p.x);
+        trace.y = sampled.map(p => p.y);
+    }
+    return trace;
+}
+
+/**
+ * Downsamples the part of a full-resolution series that lies within an X range.
+ * The nearest point outside the range on each side is kept so lines run to the plot edges.
+ * @param full The full-resolution series.
+ * @param range The visible X range, or null for the whole series.
+ * @param threshold The target number of data points.
+ * @returns The downsampled points and how many full-resolution points were visible.
+ */
+export function downsampleVisibleRange(
+    full: { x: number[]; y: number[] },
+    range: [number, number] | null,
+    threshold: number
+): { x: number[]; y: number[]; visibleCount: number } {
+    const [rangeStart, rangeEnd] = range ?? [-Infinity, Infinity];
+    const xMin = Math.min(rangeStart, rangeEnd);
+    const xMax = Math.max(rangeStart, rangeEnd);
+    const visible: { x: number; y: number }[] = [];
+    let visibleCount = 0;
+
+    for (let i = 0; i < full.x.length; i++) {
+        const x = full.x[i];
+        const inRange = x >= xMin && x <= xMax;
+        const nextInRange = i + 1 < full.x.length && full.x[i + 1] >= xMin && full.x[i + 1] <= xMax;
+        const prevInRange = i > 0 && full.x[i - 1] >= xMin && full.x[i - 1] <= xMax;
+        if (inRange) {
+            visibleCount++;
+        }
+        if (inRange || nextInRange || prevInRange) {
+            visible.push({ x, y: full.y[i] });
+        }
+    }
+
+    const sampled = largestTriangleThreeBuckets(visible, threshold);
+    return { x: sampled.map(p => p.x), y: sampled.map(p => p.y), visibleCount };
+}
+
+/**
+ * Converts PapaParse row objects into a column-oriented table.
+ * @param rows The parsed rows, keyed by header.
+ * @param headers The header names in file order.
+ * @returns The raw table for the file.
+ */
+export function rowsToTable(rows: Record<string, CellValue>[], headers: string[]): RawTable {
+    const columns: Record<string, CellValue[]> = {};
+    headers.forEach(header => {
+        columns[header] = rows.map(row => row[header] ?? null);
+    });
+    return { headers, columns, rowCount: rows.length };
+}
+
+/**
+ * Builds the Smith chart or polar traces for the selected parameters of a Touchstone table.
+ * @param fileName The name of the file, used for trace names.
+ * @param table A table produced by `parseTouchstone`.
+ * @param mapping The frequency column and the parameters to plot.
+ * @param view The complex-plane view to build.
+ * @returns One trace per selected parameter.
+ */
+function buildComplexPlaneTraces(fileName: string, table: RawTable, mapping: ColumnMapping, view: 'smith' | 'polar'): PlotlyTrace[] {
+    const frequencies = table.columns[mapping.x] as number[];
+    return mapping.y.map(parameter => {
+        const re = table.columns[`${parameter} re`] as number[];
+        const im = table.columns[`${parameter} im`] as number[];
+        const trace: PlotlyTrace = {
+            type: view === 'smith' ? 'scattersmith' : 'scatterpolar',
+            x: frequencies,
+            y: re.map((real, i) => Math.hypot(real, im[i])),
+            mode: 'lines',
+            name: `${parameter} (${fileName})`,
+            line: { width: 2 },
+            _headers: { x: mapping.x, y: parameter }
+        };
+        if (view === 'smith') {
+            const impedances = re.map((real, i) => reflectionToImpedance(real, im[i]));
+            trace.real = impedances.map(z => z.re);
+            trace.imag = impedances.map(z => z.im);
+        } else {
+            trace.r = trace.y as number[];
+            trace.theta = parameterValues(table, parameter, 'phase');
+        }
+        return trace;
+    });
+}
+
+/**
+ * Builds the Plotly traces for one file from its raw table and column mapping,
+ * downsampling each trace if the file is large.
+ * Datetime X values become encoded times (see `parseTimestamp`) so they can be downsampled like numbers;
+ * category labels are kept as strings and never downsampled, as there is no distance between them.
+ * @param fileName The name of the file, used for trace names.
+ * @param table The raw table of the file.
+ * @param mapping The X column and the Y columns to plot.
+ * @param sParamView How network parameters are shown if the table came from a Touchstone file.
+ * @param timeZone The zone datetime X values are shown in.
+ * @returns The traces and whether any of them were downsampled.
+ */
+export function buildFileTraces(fileName: string, table: RawTable, mapping: ColumnMapping, sParamView: SParameterView, timeZone = LOCAL_TIME_ZONE): { traces: PlotlyTrace[]; downsampled: boolean } {
+    if (table.touchstone && (sParamView === 'smith' || sParamView === 'polar')) {
+        return { traces: buildComplexPlaneTraces(fileName, table, mapping, sParamView), downsampled: false };
+    }
+
+    const rawXData = table.columns[mapping.x] ?? [];
+    const xFormat = resolveXFormat(table, mapping);
+    const initialXData = (xFormat.type === 'datetime'
+        ? rawXData.map(value => parseTimestamp(value, xFormat.dateFormat!, timeZone))
+        : xFormat.type === 'categorical'
+            ? rawXData.map(value => (value === null ? '' : String(value)))
+            : rawXData) as (string | number)[];
+    const traces: PlotlyTrace[] = [];
+    let downsampled = false;
+
+    mapping.y.forEach(yHeader => {
+        let yData = (table.touchstone
+            ? parameterValues(table, yHeader, sParamView as 'db' | 'phase')
+            : [...(table.columns[yHeader] ?? [])]) as (string | number)[];
+        let xData = [...initialXData];
+
+        let full: PlotlyTrace['_full'];
+
+        if (xData.length > DOWNSAMPLING_THRESHOLD && xFormat.type !== 'categorical') {
+            const combinedData = xData.map((x, index) => ({ x: Number(x), y: Number(yData[index]) }));
+            const sampled = largestTriangleThreeBuckets(combinedData, DOWNSAMPLED_POINT_COUNT);
+            full = { x: combinedData.map(p => p.x), y: combinedData.map(p => p.y) };
+            xData = sampled.map(p => p.x);
+            yData = sampled.map(p => p.y);
+            downsampled = true;
+        }
+
+        traces.push({
+            x: xData,
+            y: yData,
+            mode: 'lines',
+            name: `${yHeader} (${fileName})`,
+            line: { width: 2 },
+            _headers: { x: mapping.x, y: yHeader },
+            _xType: xFormat.type,
+            ...(full ? { _full: full } : {})
+        });
+    });
+
+    return { traces, downsampled };
+}
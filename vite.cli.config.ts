@@ -0,0 +1,14 @@
+import { defineConfig } from 'vite';
+
+// Builds the render CLI (scripts/render.ts) into a Node script; dependencies are loaded from node_modules
+export default defineConfig({
+    build: {
+        ssr: 'scripts/render.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        emptyOutDir: true,
+        rollupOptions: {
+            output: { entryFileNames: 'render.js' },
+        },
+    },
+});
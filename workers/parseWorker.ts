@@ -0,0 +1,68 @@
+import Papa from 'papaparse';
+import { ColumnMapping, PlotlyTrace, RawTable, SParameterView, CellValue, CsvDialect, ImportReport } from '../types';
+import { isTouchstoneFile } from '../utils/touchstone';
+import { buildFileTraces } from '../utils/traces';
+import { STANDARD_DIALECT } from '../utils/csvDialect';
+import { createTableCollector, csvParseConfig, parseFileText } from '../utils/parseFile';
+
+const CHUNK_SIZE = 1024 * 1024 * 4; // Bytes read per streaming step.
+
+export interface ParseRequest {
+    file: File;
+    sParamView: SParameterView;
+    // How CSV files are laid out. Ignored for Touchstone files.
+    dialect?: CsvDialect;
+    // The zone datetime X values are shown in
+    timeZone: string;
+}
+
+export type ParseResponse =
+    | { type: 'progress'; progress: number }
+    | { type: 'done'; table: RawTable; mapping: ColumnMapping; traces: PlotlyTrace[]; downsampled: boolean; report: ImportReport }
+    // An empty file or one with fewer than two columns, with the reason in the report
+    | { type: 'empty'; report: ImportReport }
+    | { type: 'error'; message: string };
+
+const post = (response: ParseResponse) => self.postMessage(response);
+
+const finish = (file: File, table: RawTable, mapping: ColumnMapping, sParamView: SParameterView, timeZone: string, report: ImportReport) => {
+    const { traces, downsampled } = buildFileTraces(file.name, table, mapping, sParamView, timeZone);
+    post({ type: 'done', table, mapping, traces, downsampled, report });
+};
+
+self.onmessage = async (event: MessageEvent<ParseRequest>) => {
+    const { file, sParamView, dialect = STANDARD_DIALECT, timeZone } = event.data;
+
+    if (isTouchstoneFile(file.name)) {
+        try {
+            const parsed = parseFileText(file.name, await file.text());
+            if (parsed.type === 'done') {
+                finish(file, parsed.table, parsed.mapping, sParamView, timeZone, parsed.report);
+            }
+        } catch (err) {
+            post({ type: 'error', message: (err as Error).message });
+        }
+        return;
+    }
+
+    const collector = createTableCollector(dialect);
+    Papa.parse<Record<string, CellValue>>(file, {
+        ...csvParseConfig(dialect),
+        chunkSize: CHUNK_SIZE,
+        chunk: (res) => {
+            collector.addChunk(res);
+            post({ type: 'progress', progress: Math.min(res.meta.cursor / (file.size || 1), 1) });
+        },
+        complete: () => {
+            const parsed = collector.finish();
+            if (parsed.type === 'empty') {
+                post(parsed);
+                return;
+            }
+            finish(file, parsed.table, parsed.mapping, sParamView, timeZone, parsed.report);
+        },
+        error: (err) => {
+            post({ type: 'error', message: err.message });
+        },
+    });
+};